@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "Transaction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kind" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "discount" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "senderId" TEXT,
+    "recipientId" TEXT,
+    CONSTRAINT "Transaction_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_senderId_createdAt_idx" ON "Transaction"("senderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Transaction_recipientId_createdAt_idx" ON "Transaction"("recipientId", "createdAt");
+
+-- Open the ledger of existing users with a deposit of their current balance.
+INSERT INTO "Transaction" ("id", "kind", "amount", "recipientId")
+SELECT
+    lower(substr("h", 1, 8) || '-' || substr("h", 9, 4) || '-4' || substr("h", 14, 3) || '-' ||
+        substr('89ab', 1 + (abs(random()) % 4), 1) || substr("h", 18, 3) || '-' || substr("h", 21, 12)),
+    'deposit',
+    "balance",
+    "id"
+FROM (SELECT "id", "balance", hex(randomblob(16)) AS "h" FROM "User" WHERE "balance" <> 0);
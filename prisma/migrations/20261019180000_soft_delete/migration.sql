@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN "deletedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "User_deletedAt_idx" ON "User"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Post_deletedAt_idx" ON "Post"("deletedAt");
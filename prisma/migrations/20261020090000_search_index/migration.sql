@@ -0,0 +1,49 @@
+-- CreateVirtualTable
+-- Prisma cannot model FTS5 tables; see `plugins/search.ts` for the queries.
+CREATE VIRTUAL TABLE "SearchIndex" USING fts5(
+    "entity" UNINDEXED,
+    "entityId" UNINDEXED,
+    "title",
+    "content",
+    tokenize = 'unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+-- CreateTrigger
+-- Triggers keep the index in step with every write, inside the writing transaction.
+CREATE TRIGGER "Post_search_insert" AFTER INSERT ON "Post" BEGIN
+    INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+    VALUES ('Post', NEW."id", NEW."title", NEW."content");
+END;
+
+CREATE TRIGGER "Post_search_update" AFTER UPDATE OF "id", "title", "content" ON "Post" BEGIN
+    DELETE FROM "SearchIndex" WHERE "entity" = 'Post' AND "entityId" = OLD."id";
+    INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+    VALUES ('Post', NEW."id", NEW."title", NEW."content");
+END;
+
+CREATE TRIGGER "Post_search_delete" AFTER DELETE ON "Post" BEGIN
+    DELETE FROM "SearchIndex" WHERE "entity" = 'Post' AND "entityId" = OLD."id";
+END;
+
+CREATE TRIGGER "User_search_insert" AFTER INSERT ON "User" BEGIN
+    INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+    VALUES ('User', NEW."id", NEW."name", '');
+END;
+
+CREATE TRIGGER "User_search_update" AFTER UPDATE OF "id", "name" ON "User" BEGIN
+    DELETE FROM "SearchIndex" WHERE "entity" = 'User' AND "entityId" = OLD."id";
+    INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+    VALUES ('User', NEW."id", NEW."name", '');
+END;
+
+CREATE TRIGGER "User_search_delete" AFTER DELETE ON "User" BEGIN
+    DELETE FROM "SearchIndex" WHERE "entity" = 'User' AND "entityId" = OLD."id";
+END;
+
+-- Backfill
+INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+SELECT 'Post', "id", "title", "content" FROM "Post";
+
+INSERT INTO "SearchIndex" ("entity", "entityId", "title", "content")
+SELECT 'User', "id", "name", '' FROM "User";
@@ -0,0 +1,216 @@
+import fp from 'fastify-plugin';
+import {
+  createHmac,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from 'node:crypto';
+import { promisify } from 'node:util';
+import { PrismaClient, User } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { envPluginTag } from './env.js';
+import { requestContext, requestContextPluginTag } from './request-context.js';
+import { dbPluginTag } from './db.js';
+import { tokenSchema } from '../routes/auth/schemas.js';
+import { passwordSchema } from '../routes/users/schemas.js';
+
+export type AuthMode = 'required' | 'optional';
+
+export type Token = Static<typeof tokenSchema>;
+
+export interface AuthOptions {
+  secret: string;
+  expiresIn: number;
+}
+
+interface TokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export const authPluginTag = 'authPluginTag';
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+const encodeJson = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const JWT_HEADER = encodeJson({ alg: 'HS256', typ: 'JWT' });
+
+const isTokenPayload = (value: unknown): value is TokenPayload => {
+  const payload = value as Partial<TokenPayload> | null;
+  return (
+    typeof payload?.sub === 'string' &&
+    typeof payload.iat === 'number' &&
+    typeof payload.exp === 'number'
+  );
+};
+
+const safeEqual = (a: Buffer, b: Buffer) =>
+  a.length === b.length && timingSafeEqual(a, b);
+
+export class Authenticator {
+  constructor(
+    private prisma: PrismaClient,
+    private options: AuthOptions,
+  ) {}
+
+  async hashPassword(password: string) {
+    const salt = randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * Replaces a plain `password` of a user dto with its hash. Checks the password
+   * itself, since GraphQL inputs do not carry the limits of `passwordSchema`.
+   */
+  async withPasswordHash<T extends { password?: string }>({ password, ...data }: T) {
+    const { minLength = 0 } = passwordSchema;
+    if (password !== undefined && password.length < minLength) {
+      throw new HttpCompatibleError(
+        400,
+        `Password must be at least ${minLength} characters long.`,
+      );
+    }
+    return {
+      ...data,
+      passwordHash:
+        password === undefined ? undefined : await this.hashPassword(password),
+    };
+  }
+
+  async login(userId: string, password: string): Promise<Token> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (
+      !user?.passwordHash ||
+      !(await this.verifyPassword(password, user.passwordHash))
+    ) {
+      throw new HttpCompatibleError(401, 'Invalid user id or password.');
+    }
+    return {
+      token: this.sign(user.id),
+      tokenType: 'Bearer',
+      expiresIn: this.options.expiresIn,
+    };
+  }
+
+  /** Resolves the caller of an `Authorization` header; no header means an anonymous caller. */
+  async authenticate(authorization: string | undefined): Promise<User | null> {
+    if (authorization === undefined) {
+      return null;
+    }
+
+    const [scheme, token] = authorization.split(' ');
+    const userId = scheme === 'Bearer' && token ? this.verify(token) : undefined;
+    const user = userId && (await this.prisma.user.findUnique({ where: { id: userId } }));
+    if (!user) {
+      throw new HttpCompatibleError(401, 'Invalid or expired token.');
+    }
+    return user;
+  }
+
+  private async verifyPassword(password: string, stored: string) {
+    const [algorithm, salt, hash] = stored.split(':');
+    if (algorithm !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+    return safeEqual(actual, expected);
+  }
+
+  private signature(content: string) {
+    return createHmac('sha256', this.options.secret).update(content).digest('base64url');
+  }
+
+  private sign(userId: string) {
+    const iat = Math.floor(Date.now() / 1000);
+    const payload: TokenPayload = { sub: userId, iat, exp: iat + this.options.expiresIn };
+    const content = `${JWT_HEADER}.${encodeJson(payload)}`;
+    return `${content}.${this.signature(content)}`;
+  }
+
+  private verify(token: string): string | undefined {
+    const [header, payload, signature] = token.split('.');
+    if (header !== JWT_HEADER || !payload || !signature) {
+      return undefined;
+    }
+    const expected = Buffer.from(this.signature(`${header}.${payload}`));
+    if (!safeEqual(Buffer.from(signature), expected)) {
+      return undefined;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as unknown;
+      if (isTokenPayload(claims) && claims.exp > Date.now() / 1000) {
+        return claims.sub;
+      }
+    } catch {
+      // A malformed payload is just an invalid token.
+    }
+    return undefined;
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    const { config } = fastify;
+    let secret = config.JWT_SECRET;
+    if (secret === undefined) {
+      secret = randomBytes(32).toString('hex');
+      fastify.log.warn(
+        'JWT_SECRET is not set; issued tokens will not survive a restart.',
+      );
+    }
+
+    const authenticator = new Authenticator(fastify.prisma, {
+      secret,
+      expiresIn: config.JWT_EXPIRES_IN,
+    });
+    fastify.decorate('authenticator', authenticator);
+    fastify.decorateRequest('viewer', null);
+
+    fastify.addHook('onRequest', async (req, reply) => {
+      req.viewer = await authenticator.authenticate(req.headers.authorization);
+      const context = requestContext.getStore();
+      if (context && req.viewer) {
+        context.actorId = req.viewer.id;
+      }
+      const mode =
+        req.routeConfig.auth ?? (config.AUTH_REQUIRED ? 'required' : 'optional');
+      if (mode === 'required' && req.viewer === null) {
+        void reply.header('www-authenticate', 'Bearer');
+        throw new HttpCompatibleError(401, 'Authentication required.');
+      }
+    });
+  },
+  {
+    name: authPluginTag,
+    dependencies: [envPluginTag, requestContextPluginTag, dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    authenticator: Authenticator;
+  }
+
+  export interface FastifyRequest {
+    /** The authenticated caller, `null` for anonymous requests. */
+    viewer: User | null;
+  }
+
+  export interface FastifyContextConfig {
+    /** Overrides `AUTH_REQUIRED` for a single route. */
+    auth?: AuthMode;
+  }
+}
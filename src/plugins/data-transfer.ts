@@ -0,0 +1,315 @@
+import fp from 'fastify-plugin';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  FormatRegistry,
+  Static,
+  TObject,
+  TSchema,
+  TypeRegistry,
+} from '@sinclair/typebox';
+import { ValueErrorType } from '@sinclair/typebox/errors';
+import { Value } from '@sinclair/typebox/value';
+import { dbPluginTag, withSoftDeleted } from './db.js';
+import {
+  DataModel,
+  dataLineSchemas,
+  importReportSchema,
+} from '../routes/admin/schemas.js';
+import { TransactionKind } from '../routes/users/_userId/transactions/schemas.js';
+
+export type ImportReport = Static<typeof importReportSchema>;
+
+type Row = Record<string, unknown>;
+
+type Data<TModel extends DataModel> = Static<(typeof dataLineSchemas)[TModel]>;
+
+const EXPORT_PAGE_SIZE = 500;
+// Lines written per transaction, so a large import never holds SQLite's write lock for long.
+const IMPORT_CHUNK_SIZE = 500;
+const IMPORT_CHUNK_TIMEOUT_MS = 60_000;
+
+const models = Object.keys(dataLineSchemas) as DataModel[];
+
+// TypeBox knows only the string formats it is given; Fastify's Ajv has its own.
+const formats: Record<string, (value: string) => boolean> = {
+  uuid: (value) =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'date-time': (value) =>
+    /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d(\.\d+)?(Z|[+-]\d\d:\d\d)$/i.test(value) &&
+    !Number.isNaN(Date.parse(value)),
+};
+
+// The dates are `Type.Unsafe` strings, which TypeBox cannot check unless told how.
+const checkUnsafe = (schema: { type?: string; format?: string }, value: unknown) =>
+  schema.type === 'string' &&
+  typeof value === 'string' &&
+  (schema.format === undefined || formats[schema.format]?.(value) === true);
+
+// TypeBox's registries are global, so the import adds its checks only while it
+// validates and then puts the registries back as they were.
+const withImportChecks = <T>(validate: () => T): T => {
+  const typeEntries = TypeRegistry.Entries();
+  const formatEntries = FormatRegistry.Entries();
+  Object.entries(formats).forEach(([format, check]) => FormatRegistry.Set(format, check));
+  TypeRegistry.Set('Unsafe', checkUnsafe);
+  try {
+    return validate();
+  } finally {
+    TypeRegistry.Clear();
+    typeEntries.forEach((check, kind) => TypeRegistry.Set(kind, check));
+    FormatRegistry.Clear();
+    formatEntries.forEach((check, format) => FormatRegistry.Set(format, check));
+  }
+};
+
+const describeError = (schema: TSchema, data: unknown) => {
+  const error = Value.Errors(schema, data).First();
+  if (error === undefined) {
+    return 'data is invalid.';
+  }
+  const { format } = error.schema as { format?: string };
+  const message =
+    error.type === ValueErrorType.Custom && format !== undefined
+      ? `Expected string to match format '${format}'`
+      : error.message;
+  return `data${error.path} ${message}.`;
+};
+
+// Rows carry the fields of their REST schema only, which leaves out password hashes
+// and soft-delete markers.
+const pickFields = (model: DataModel, row: Row) =>
+  Object.fromEntries(
+    Object.keys((dataLineSchemas[model] as TObject).properties).map((key) => [
+      key,
+      row[key],
+    ]),
+  );
+
+const parseLine = (text: string) => {
+  let line: unknown;
+  try {
+    line = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid JSON.');
+  }
+  const { model, data } = (line ?? {}) as { model?: unknown; data?: unknown };
+  if (typeof model !== 'string' || !models.includes(model as DataModel)) {
+    throw new Error(`"model" must be one of ${models.join(', ')}.`);
+  }
+  const schema = dataLineSchemas[model as DataModel];
+  const error = withImportChecks(() =>
+    Value.Check(schema, data) ? undefined : describeError(schema, data),
+  );
+  if (error !== undefined) {
+    throw new Error(error);
+  }
+  return { model: model as DataModel, data: pickFields(model as DataModel, data as Row) };
+};
+
+/**
+ * Copies the data between environments as NDJSON, one `{ model, data }` line per row.
+ * Soft-deleted rows are left out, and so are the transactions: an import records
+ * changed balances as new deposits and charges instead.
+ */
+export class DataTransfer {
+  constructor(private prisma: PrismaClient) {}
+
+  export(): Readable {
+    return Readable.from(this.exportLines());
+  }
+
+  async import(input: Readable): Promise<ImportReport> {
+    const report: ImportReport = { lines: 0, imported: 0, errors: [] };
+    let chunk: { line: number; text: string }[] = [];
+    for await (const text of createInterface({ input, crlfDelay: Infinity })) {
+      report.lines += 1;
+      if (text.trim() !== '') {
+        chunk.push({ line: report.lines, text });
+      }
+      if (chunk.length >= IMPORT_CHUNK_SIZE) {
+        await this.importChunk(chunk, report);
+        chunk = [];
+      }
+    }
+    await this.importChunk(chunk, report);
+    return report;
+  }
+
+  private async *exportLines() {
+    for (const model of models) {
+      let cursor: Row | undefined;
+      do {
+        const rows = await this.findPage(model, cursor);
+        for (const row of rows) {
+          yield `${JSON.stringify({ model, data: pickFields(model, row) })}\n`;
+        }
+        cursor = rows.length === EXPORT_PAGE_SIZE ? rows[rows.length - 1] : undefined;
+      } while (cursor !== undefined);
+    }
+  }
+
+  private findPage(model: DataModel, cursor?: Row): Promise<Row[]> {
+    const page = { take: EXPORT_PAGE_SIZE, skip: cursor === undefined ? 0 : 1 };
+    switch (model) {
+      case 'MemberType':
+        return this.prisma.memberType.findMany({
+          ...page,
+          orderBy: { id: 'asc' },
+          ...(cursor && { cursor: { id: String(cursor.id) } }),
+        });
+      case 'User':
+        return this.prisma.user.findMany({
+          ...page,
+          orderBy: { id: 'asc' },
+          ...(cursor && { cursor: { id: String(cursor.id) } }),
+        });
+      case 'Profile':
+        return this.prisma.profile.findMany({
+          ...page,
+          orderBy: { id: 'asc' },
+          ...(cursor && { cursor: { id: String(cursor.id) } }),
+        });
+      case 'Post':
+        return this.prisma.post.findMany({
+          ...page,
+          orderBy: { id: 'asc' },
+          ...(cursor && { cursor: { id: String(cursor.id) } }),
+        });
+      case 'SubscribersOnAuthors':
+        return this.prisma.subscribersOnAuthors.findMany({
+          ...page,
+          orderBy: [{ subscriberId: 'asc' }, { authorId: 'asc' }],
+          ...(cursor && {
+            cursor: {
+              subscriberId_authorId: {
+                subscriberId: String(cursor.subscriberId),
+                authorId: String(cursor.authorId),
+              },
+            },
+          }),
+        });
+    }
+  }
+
+  // A failing row only rolls back its own statement, so the rest of the chunk is kept.
+  private async importChunk(
+    chunk: { line: number; text: string }[],
+    report: ImportReport,
+  ) {
+    if (chunk.length === 0) {
+      return;
+    }
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const { line, text } of chunk) {
+          try {
+            const { model, data } = parseLine(text);
+            await this.write(tx, model, data);
+            report.imported += 1;
+          } catch (error) {
+            report.errors.push({ line, message: getErrorMessage(error) });
+          }
+        }
+      },
+      { timeout: IMPORT_CHUNK_TIMEOUT_MS },
+    );
+  }
+
+  // Rows are upserted by id, so importing the same file twice changes nothing.
+  private async write(tx: Prisma.TransactionClient, model: DataModel, row: Row) {
+    switch (model) {
+      case 'MemberType': {
+        const { id, ...data } = row as Data<'MemberType'>;
+        await tx.memberType.upsert({
+          where: { id },
+          create: { id, ...data },
+          update: data,
+        });
+        return;
+      }
+      case 'User': {
+        const { id, ...data } = row as Data<'User'>;
+        // The upsert also updates soft-deleted users, so their old balance is needed too.
+        const existing = await withSoftDeleted(() =>
+          tx.user.findUnique({ where: { id } }),
+        );
+        await tx.user.upsert({
+          where: { id },
+          create: { id, ...data },
+          update: data,
+        });
+        await this.recordBalanceChange(tx, id, data.balance - (existing?.balance ?? 0));
+        return;
+      }
+      case 'Profile': {
+        const { id, ...data } = row as Data<'Profile'>;
+        await tx.profile.upsert({
+          where: { id },
+          create: { id, ...data },
+          update: data,
+        });
+        return;
+      }
+      case 'Post': {
+        const { id, createdAt, ...data } = row as Data<'Post'>;
+        const post = { ...data, createdAt: new Date(createdAt) };
+        await tx.post.upsert({
+          where: { id },
+          create: { id, ...post },
+          update: post,
+        });
+        return;
+      }
+      case 'SubscribersOnAuthors': {
+        const subscription = row as Data<'SubscribersOnAuthors'>;
+        await tx.subscribersOnAuthors.upsert({
+          where: { subscriberId_authorId: subscription },
+          create: subscription,
+          update: {},
+        });
+        return;
+      }
+    }
+  }
+
+  // Keeps the balance equal to the ledger, see `Ledger.reconcile`.
+  private async recordBalanceChange(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    change: number,
+  ) {
+    const amount = Number(Math.abs(change).toFixed(6));
+    if (amount === 0) {
+      return;
+    }
+    await tx.transaction.create({
+      data:
+        change > 0
+          ? { kind: TransactionKind.DEPOSIT, amount, recipientId: userId }
+          : { kind: TransactionKind.CHARGE, amount, senderId: userId },
+    });
+  }
+}
+
+// Database errors span several lines and end with the cause.
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error
+    ? error.message.trim().split('\n').at(-1) ?? error.message
+    : String(error);
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('dataTransfer', new DataTransfer(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    dataTransfer: DataTransfer;
+  }
+}
@@ -1,5 +1,8 @@
 import fp from 'fastify-plugin';
-import { PrismaClient } from '@prisma/client';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { performance } from 'node:perf_hooks';
+import { AuditLog, Prisma, PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
 import {
   PrismaClientKnownRequestError,
   PrismaClientRustPanicError,
@@ -8,32 +11,315 @@ import {
 } from '@prisma/client/runtime/library.js';
 import { HttpCompatibleError } from './handle-http-error.js';
 import { HttpErrorCodes } from '@fastify/sensible/lib/httpError.js';
-import { Static } from '@sinclair/typebox';
-import { prismaStatsSchema } from '../routes/stats/schemas.js';
-
-export default fp(async (fastify) => {
-  const prisma = new PrismaClient({
-    log: ['warn', 'error'],
-  }).$extends({
-    query: {
-      $allOperations: ({ model = '', operation, args, query }) => {
-        fastify.prismaStats.operationHistory.push({
-          model,
-          operation,
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-          args,
-        });
-        return query(args).catch(handlePrismaError);
+import { prismaStatsPluginTag } from './prisma-stats.js';
+import { RequestContext, requestContextPluginTag } from './request-context.js';
+import { nPlusOnePluginTag } from './n-plus-one.js';
+import { AuditAction, auditLogSchema } from '../routes/audit/schemas.js';
+
+export const dbPluginTag = 'dbPluginTag';
+
+export default fp(
+  async (fastify) => {
+    const { prismaStats, requestContext, nPlusOne } = fastify;
+
+    const base = new PrismaClient({
+      log: ['warn', 'error'],
+    });
+    const extended = base.$extends({
+      query: {
+        $allOperations: async ({ model = '', operation, args: rawArgs, query }) => {
+          if (auditQueries.getStore()) {
+            return query(rawArgs);
+          }
+          const args = excludeSoftDeleted(model, operation, rawArgs as QueryArgs);
+          const context = requestContext.getStore();
+          nPlusOne.track(context, model, operation, args);
+
+          const requestId = context?.requestId ?? null;
+          const startedAt = performance.now();
+          const record = (errorCode: string | null) => {
+            if (context?.excludeFromPrismaStats) {
+              return;
+            }
+            prismaStats.record({
+              model,
+              operation,
+              args: redact(args),
+              requestId,
+              durationMs: performance.now() - startedAt,
+              success: errorCode === null,
+              errorCode,
+            });
+          };
+          try {
+            const keys = auditKeys[model];
+            const result: unknown = await (keys && auditedOperations.has(operation)
+              ? runAudited({
+                  model,
+                  operation,
+                  args,
+                  keys,
+                  query,
+                  client: transactionClients.getStore() ?? base,
+                  context,
+                })
+              : query(args));
+            record(null);
+            return result;
+          } catch (error) {
+            record(getPrismaErrorCode(error));
+            return handlePrismaError(error);
+          }
+        },
+      },
+    });
+    const prisma = extended.$extends({
+      client: {
+        $transaction(arg: unknown, options?: object) {
+          if (typeof arg !== 'function') {
+            return extended.$transaction(arg as Prisma.PrismaPromise<unknown>[], options);
+          }
+          const fn = arg as (tx: Prisma.TransactionClient) => Promise<unknown>;
+          return extended.$transaction((tx) => {
+            const client = tx as unknown as Prisma.TransactionClient;
+            return transactionClients.run(client, () => fn(client));
+          }, options);
+        },
       },
-    },
-  }) as unknown as PrismaClient;
+    }) as unknown as PrismaClient;
 
-  fastify.decorate('prismaStats', {
-    operationHistory: [],
-  });
-  fastify.decorate('prisma', prisma);
+    fastify.decorate('prisma', prisma);
+  },
+  {
+    name: dbPluginTag,
+    dependencies: [prismaStatsPluginTag, requestContextPluginTag, nPlusOnePluginTag],
+  },
+);
+
+type QueryArgs = { where?: Record<string, unknown> } | undefined;
+
+// Soft-deleted users and posts, and everything that belongs to a soft-deleted
+// user, are left out unless the query filters on `deletedAt` itself or runs in
+// `withSoftDeleted`.
+const softDeleteFilters: Partial<Record<string, object>> = {
+  User: { deletedAt: null },
+  Post: { deletedAt: null, author: { deletedAt: null } },
+  Profile: { user: { deletedAt: null } },
+  SubscribersOnAuthors: { subscriber: { deletedAt: null }, author: { deletedAt: null } },
+};
+
+const softDeleteOperations = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+]);
+
+const softDeletedIncluded = new AsyncLocalStorage<true>();
+
+/** Runs the queries of `read` with soft-deleted rows included. */
+export const withSoftDeleted = <T>(read: () => PromiseLike<T>): Promise<T> =>
+  // Prisma runs a query once it is awaited, so the await must happen in here.
+  softDeletedIncluded.run(true, async () => await read());
+
+function excludeSoftDeleted(model: string, operation: string, args: QueryArgs) {
+  const filter = softDeleteFilters[model];
+  if (
+    filter === undefined ||
+    softDeletedIncluded.getStore() ||
+    !softDeleteOperations.has(operation) ||
+    (args?.where !== undefined && 'deletedAt' in args.where)
+  ) {
+    return args;
+  }
+  const and = args?.where?.AND ?? [];
+  return { ...args, where: { ...args?.where, AND: [and, filter].flat() } };
+}
+
+export type AuditEntry = Static<typeof auditLogSchema>;
+
+type Row = Record<string, unknown>;
+
+type Delegate = Record<
+  'findMany' | 'findUnique' | 'create',
+  (args: object) => Promise<unknown>
+>;
+
+// Query extensions are handed no client bound to the caller's transaction, so
+// `$transaction` remembers it. Running the audit inside it lets its reads see
+// the transaction's earlier writes and its rows roll back with it; a separate
+// connection would wait for SQLite's write lock instead.
+const transactionClients = new AsyncLocalStorage<Prisma.TransactionClient>();
+
+// Reads and writes of the audit itself skip the extension, like a raw query would.
+const auditQueries = new AsyncLocalStorage<true>();
+
+// Fields that identify a row of every audited model.
+const auditKeys: Partial<Record<string, string[]>> = {
+  User: ['id'],
+  Post: ['id'],
+  Profile: ['id'],
+  SubscribersOnAuthors: ['subscriberId', 'authorId'],
+};
+
+const auditedOperations = new Set([
+  'create',
+  'update',
+  'upsert',
+  'delete',
+  'updateMany',
+  'deleteMany',
+]);
+
+// The audit log and the stats tell that these changed, but never what they contain.
+const redactedFields = new Set(['passwordHash']);
+
+const hide = (value: unknown) => (value === null ? null : '[redacted]');
+
+// Copies query arguments with the `redactedFields` hidden at any depth.
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      redactedFields.has(key) ? hide(field) : redact(field),
+    ]),
+  );
+}
+
+export const parseAuditLog = ({ changes, ...log }: AuditLog): AuditEntry => ({
+  ...log,
+  changes: JSON.parse(changes) as AuditEntry['changes'],
 });
 
+function sideQuery(
+  client: Prisma.TransactionClient,
+  model: string,
+  action: keyof Delegate,
+  args: object,
+) {
+  const delegates = client as unknown as Record<string, Delegate>;
+  const delegate = delegates[`${model.charAt(0).toLowerCase()}${model.slice(1)}`];
+  // Prisma runs a query once it is awaited, so the await must happen in here.
+  return auditQueries.run(true, async () => await delegate[action](args));
+}
+
+async function runAudited({
+  model,
+  operation,
+  args,
+  keys,
+  query,
+  client,
+  context,
+}: {
+  model: string;
+  operation: string;
+  args: QueryArgs;
+  keys: string[];
+  query: (args: QueryArgs) => Promise<unknown>;
+  client: Prisma.TransactionClient;
+  context?: RequestContext;
+}) {
+  const where = args?.where;
+  let before: Row[] = [];
+  if (operation.endsWith('Many')) {
+    before = (await sideQuery(client, model, 'findMany', { where })) as Row[];
+  } else if (operation !== 'create') {
+    const row = (await sideQuery(client, model, 'findUnique', { where })) as Row | null;
+    before = row ? [row] : [];
+  }
+
+  const result = await query(args);
+
+  // Rows are read back in full, whatever the operation itself selected.
+  const changed =
+    operation === 'create' || operation === 'upsert'
+      ? [...before, result as Row]
+      : before;
+  const after =
+    operation.startsWith('delete') || changed.length === 0
+      ? []
+      : ((await sideQuery(client, model, 'findMany', {
+          where: { OR: changed.map((row) => pickKeys(keys, row)) },
+        })) as Row[]);
+
+  for (const entry of toAuditEntries(keys, before, after)) {
+    await sideQuery(client, 'AuditLog', 'create', {
+      data: {
+        ...entry,
+        entity: model,
+        actorId: context?.actorId ?? null,
+        source: context?.source ?? 'system',
+      },
+    });
+  }
+  return result;
+}
+
+const pickKeys = (keys: string[], row: Row) =>
+  Object.fromEntries(keys.map((key) => [key, row[key]]));
+
+const getEntityId = (keys: string[], row: Row) =>
+  keys.map((key) => String(row[key])).join(':');
+
+function toAuditEntries(keys: string[], before: Row[], after: Row[]) {
+  const beforeById = new Map(before.map((row) => [getEntityId(keys, row), row]));
+  const afterById = new Map(after.map((row) => [getEntityId(keys, row), row]));
+  const entityIds = new Set([...beforeById.keys(), ...afterById.keys()]);
+
+  return [...entityIds].flatMap((entityId) => {
+    const oldRow = beforeById.get(entityId);
+    const newRow = afterById.get(entityId);
+    const changes = diffRows(oldRow, newRow);
+    if (Object.keys(changes).length === 0) {
+      return [];
+    }
+    let action = AuditAction.UPDATE;
+    if (oldRow === undefined) {
+      action = AuditAction.CREATE;
+    } else if (newRow === undefined) {
+      action = AuditAction.DELETE;
+    }
+    return [{ action, entityId, changes: JSON.stringify(changes) }];
+  });
+}
+
+function diffRows(before: Row = {}, after: Row = {}) {
+  const changes: AuditEntry['changes'] = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((field) => {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      return;
+    }
+    changes[field] = redactedFields.has(field)
+      ? { before: hide(oldValue), after: hide(newValue) }
+      : { before: oldValue, after: newValue };
+  });
+  return changes;
+}
+
+function getPrismaErrorCode(error: unknown) {
+  if (error instanceof PrismaClientKnownRequestError) {
+    return error.code;
+  }
+  return error instanceof Error ? error.name : 'UnknownError';
+}
+
 function handlePrismaError(error: unknown) {
   const info: { code: HttpErrorCodes; mes: string } = {
     code: 502,
@@ -62,6 +348,5 @@ function handlePrismaError(error: unknown) {
 declare module 'fastify' {
   export interface FastifyInstance {
     prisma: PrismaClient;
-    prismaStats: Static<typeof prismaStatsSchema>;
   }
 }
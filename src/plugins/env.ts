@@ -4,13 +4,39 @@ import { Type, Static } from '@fastify/type-provider-typebox';
 
 const schema = Type.Object({
   FASTIFY_PORT: Type.Integer(),
+  GQL_MAX_DEPTH: Type.Integer({ default: 5 }),
+  GQL_MAX_COST: Type.Integer({ default: 5000 }),
+  GQL_DEFAULT_LIST_SIZE: Type.Integer({ default: 10 }),
+  GQL_PERSISTED_QUERIES_CACHE_SIZE: Type.Integer({ default: 1000 }),
+  GQL_ALLOWLIST_ONLY: Type.Boolean({ default: false }),
+  GQL_ALLOWLIST_PATH: Type.Optional(Type.String()),
+  GQL_GET_MAX_AGE: Type.Integer({ default: 60 }),
+  GQL_MAX_BATCH_SIZE: Type.Integer({ default: 10 }),
+  PRISMA_STATS_HISTORY_SIZE: Type.Integer({ default: 10000 }),
+  N_PLUS_ONE_THRESHOLD: Type.Integer({ default: 0 }),
+  N_PLUS_ONE_STRICT: Type.Boolean({ default: false }),
+  N_PLUS_ONE_EXPOSE: Type.Boolean({ default: false }),
+  JWT_SECRET: Type.Optional(Type.String({ minLength: 32 })),
+  JWT_EXPIRES_IN: Type.Integer({ default: 3600 }),
+  AUTH_REQUIRED: Type.Boolean({ default: false }),
+  ADMIN_USER_IDS: Type.String({ default: '' }),
+  RATE_LIMIT_CAPACITY: Type.Integer({ default: 10000 }),
+  RATE_LIMIT_REFILL_PER_SECOND: Type.Number({ default: 100, exclusiveMinimum: 0 }),
+  RATE_LIMIT_REST_COST: Type.Integer({ default: 10 }),
+  SOFT_DELETE_RETENTION_DAYS: Type.Integer({ default: 30, minimum: 0 }),
 });
 
-export default fp(async (fastify) =>
-  fastify.register(fastifyEnv, {
-    dotenv: true,
-    schema,
-  }),
+export const envPluginTag = 'envPluginTag';
+
+export default fp(
+  async (fastify) =>
+    fastify.register(fastifyEnv, {
+      dotenv: true,
+      schema,
+    }),
+  {
+    name: envPluginTag,
+  },
 );
 
 declare module 'fastify' {
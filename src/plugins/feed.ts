@@ -0,0 +1,68 @@
+import fp from 'fastify-plugin';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { dbPluginTag } from './db.js';
+import { feedPageSchema } from '../routes/users/_userId/feed/schemas.js';
+
+export type FeedPage = Static<typeof feedPageSchema>;
+
+export interface FeedPageQuery {
+  since?: Date;
+  /** Id of the last post of the previous page. */
+  after?: string;
+  limit: number;
+}
+
+// Newest first. GraphQL connections break ties by ascending id, and so does REST, so
+// both list posts created in the same millisecond in the same order.
+export const feedOrderBy: Prisma.PostOrderByWithRelationInput[] = [{ createdAt: 'desc' }];
+
+/**
+ * Posts of the authors a user follows. The subscriptions are joined in the posts
+ * query itself, so a page costs one SQL query however many authors are followed.
+ */
+export class Feed {
+  constructor(private prisma: PrismaClient) {}
+
+  where(userId: string, since?: Date | null): Prisma.PostWhereInput {
+    return {
+      author: { subscribedToUser: { some: { subscriberId: userId } } },
+      ...(since != null && { createdAt: { gt: since } }),
+    };
+  }
+
+  /** Returns `null` for unknown users. */
+  async findPage(
+    userId: string,
+    { since, after, limit }: FeedPageQuery,
+  ): Promise<FeedPage | null> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (user === null) {
+      return null;
+    }
+    const posts = await this.prisma.post.findMany({
+      where: this.where(userId, since),
+      orderBy: [...feedOrderBy, { id: 'asc' }],
+      take: limit + 1,
+      ...(after !== undefined && { cursor: { id: after }, skip: 1 }),
+    });
+    const hasMore = posts.length > limit;
+    const page = posts.slice(0, limit);
+    return { posts: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('feed', new Feed(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    feed: Feed;
+  }
+}
@@ -1,4 +1,5 @@
 import fp from 'fastify-plugin';
+import { STATUS_CODES } from 'node:http';
 import { HttpErrorCodes } from '@fastify/sensible/lib/httpError.js';
 import { sensiblePluginTag } from './sensible.js';
 
@@ -11,9 +12,23 @@ export class HttpCompatibleError extends Error {
   }
 }
 
+/** Sent as an RFC 9457 `application/problem+json` body instead of the default error body. */
+export class ProblemError extends HttpCompatibleError {}
+
 export default fp(
   async (fastify) =>
-    fastify.setErrorHandler((error) => {
+    fastify.setErrorHandler((error, req, reply) => {
+      if (error instanceof ProblemError) {
+        const status = Number(error.httpCode);
+        void reply.code(status).type('application/problem+json').send({
+          type: 'about:blank',
+          title: STATUS_CODES[status],
+          status,
+          detail: error.message,
+          instance: req.url,
+        });
+        return;
+      }
       if (error instanceof HttpCompatibleError) {
         return fastify.httpErrors.getHttpError(error.httpCode, error.message);
       }
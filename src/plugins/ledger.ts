@@ -0,0 +1,168 @@
+import fp from 'fastify-plugin';
+import { Prisma, PrismaClient, Transaction, User } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { dbPluginTag } from './db.js';
+import {
+  TransactionKind,
+  balanceReconciliationSchema,
+} from '../routes/users/_userId/transactions/schemas.js';
+
+export type BalanceReconciliation = Static<typeof balanceReconciliationSchema>;
+
+// Money moves in whole cents, so a discount never produces fractions of one.
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Float sums pick up binary rounding noise far below a cent.
+const dropNoise = (value: number) => Number(value.toFixed(6));
+
+const toTotal = (amount: number) => {
+  const total = roundAmount(amount);
+  if (!(total > 0)) {
+    throw new HttpCompatibleError(400, 'Amount must be at least 0.01.');
+  }
+  return total;
+};
+
+/** Compares the stored balance with the sums of the transactions of its user. */
+export const toBalanceReconciliation = (
+  balance: number,
+  received: number,
+  sent: number,
+): BalanceReconciliation => {
+  const ledgerBalance = dropNoise(received - sent);
+  return { balance, ledgerBalance, difference: dropNoise(balance - ledgerBalance) };
+};
+
+export class Ledger {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Creates the user with an empty balance; money only comes in through `deposit`. */
+  createUser(data: Omit<Prisma.UserCreateInput, 'balance'>): Promise<User> {
+    return this.prisma.user.create({ data: { ...data, balance: 0 } });
+  }
+
+  /** Books money paid in from outside the platform. */
+  deposit(userId: string, amount: number): Promise<Transaction> {
+    const total = toTotal(amount);
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.user.updateMany({
+        where: { id: userId },
+        data: { balance: { increment: total } },
+      });
+      if (count === 0) {
+        throw new HttpCompatibleError(404, 'User not found.');
+      }
+      return tx.transaction.create({
+        data: { kind: TransactionKind.DEPOSIT, amount: total, recipientId: userId },
+      });
+    });
+  }
+
+  async transfer(
+    senderId: string,
+    recipientId: string,
+    amount: number,
+  ): Promise<Transaction> {
+    if (senderId === recipientId) {
+      throw new HttpCompatibleError(400, 'Cannot transfer money to the same user.');
+    }
+    return this.prisma.$transaction(async (tx) => {
+      const recipient = await tx.user.findUnique({ where: { id: recipientId } });
+      if (recipient === null) {
+        throw new HttpCompatibleError(404, 'Recipient not found.');
+      }
+      const total = await this.debit(tx, senderId, amount);
+      await tx.user.update({
+        where: { id: recipientId },
+        data: { balance: { increment: total } },
+      });
+      return tx.transaction.create({
+        data: { kind: TransactionKind.TRANSFER, amount: total, senderId, recipientId },
+      });
+    });
+  }
+
+  /** Charges the user on behalf of the platform, minus their member type discount. */
+  charge(userId: string, amount: number): Promise<Transaction> {
+    return this.prisma.$transaction(async (tx) => {
+      const profile = await tx.profile.findUnique({
+        where: { userId },
+        select: { memberType: { select: { discount: true } } },
+      });
+      const discount = profile?.memberType.discount ?? 0;
+      const total = await this.debit(tx, userId, amount * (1 - discount / 100));
+      return tx.transaction.create({
+        data: { kind: TransactionKind.CHARGE, amount: total, discount, senderId: userId },
+      });
+    });
+  }
+
+  /**
+   * Compares the stored balance with the one derived from the ledger and, with
+   * `fix`, overwrites the stored balance. Returns `null` for unknown users.
+   */
+  reconcile(userId: string, { fix = false } = {}): Promise<BalanceReconciliation | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id: userId } });
+      if (user === null) {
+        return null;
+      }
+
+      const [received, sent] = await Promise.all([
+        tx.transaction.aggregate({
+          where: { recipientId: userId },
+          _sum: { amount: true },
+        }),
+        tx.transaction.aggregate({ where: { senderId: userId }, _sum: { amount: true } }),
+      ]);
+      const reconciliation = toBalanceReconciliation(
+        user.balance,
+        received._sum.amount ?? 0,
+        sent._sum.amount ?? 0,
+      );
+      if (fix && reconciliation.difference !== 0) {
+        await tx.user.update({
+          where: { id: userId },
+          data: { balance: reconciliation.ledgerBalance },
+        });
+      }
+      return reconciliation;
+    });
+  }
+
+  // The conditional update makes the overdraft check and the debit one atomic step.
+  private async debit(tx: Prisma.TransactionClient, userId: string, amount: number) {
+    const total = toTotal(amount);
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, balance: { gte: total } },
+      data: { balance: { decrement: total } },
+    });
+    if (count === 0) {
+      const user = await tx.user.findUnique({ where: { id: userId } });
+      if (user === null) {
+        throw new HttpCompatibleError(404, 'User not found.');
+      }
+      throw new HttpCompatibleError(
+        422,
+        `Insufficient funds: balance ${user.balance} is less than ${total}.`,
+      );
+    }
+    return total;
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('ledger', new Ledger(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    ledger: Ledger;
+  }
+}
@@ -0,0 +1,146 @@
+import fp from 'fastify-plugin';
+import { envPluginTag } from './env.js';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { RequestContext, requestContextPluginTag } from './request-context.js';
+
+export interface NPlusOneDetection {
+  model: string;
+  operation: string;
+  count: number;
+  paths: string[];
+}
+
+export interface NPlusOneOptions {
+  threshold: number;
+  strict: boolean;
+}
+
+export const nPlusOnePluginTag = 'nPlusOnePluginTag';
+
+const singleRowOperations = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+]);
+
+// Keeps the structure of the arguments but not their values, so lookups of
+// different ids through the same query count as repetitions.
+const toShape = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return ['?'];
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, nested]) => [key, toShape(nested)]),
+    );
+  }
+  return '?';
+};
+
+const getRepetitionKey = (model: string, operation: string, args: unknown) => {
+  if (singleRowOperations.has(operation)) {
+    return `${model}.${operation}`;
+  }
+  if (operation === 'findMany') {
+    return `${model}.${operation}:${JSON.stringify(toShape(args))}`;
+  }
+  return undefined;
+};
+
+/** Counts repeated reads per request; anything at or above `threshold` is reported. */
+export class NPlusOneDetector {
+  private requests = new Map<string, Map<string, NPlusOneDetection>>();
+
+  constructor(private options: NPlusOneOptions) {}
+
+  get enabled() {
+    return this.options.threshold > 0;
+  }
+
+  track(
+    context: RequestContext | undefined,
+    model: string,
+    operation: string,
+    args: unknown,
+  ) {
+    const key = this.enabled && context && getRepetitionKey(model, operation, args);
+    if (!context || !key) {
+      return;
+    }
+
+    const reads =
+      this.requests.get(context.requestId) ?? new Map<string, NPlusOneDetection>();
+    this.requests.set(context.requestId, reads);
+    const read = reads.get(key) ?? { model, operation, count: 0, paths: [] };
+    reads.set(key, read);
+    read.count += 1;
+    if (context.path !== undefined && !read.paths.includes(context.path)) {
+      read.paths.push(context.path);
+    }
+
+    if (this.options.strict && read.count >= this.options.threshold) {
+      throw new HttpCompatibleError(
+        500,
+        `N+1 queries detected: ${read.count} ${model}.${operation} calls in one request.`,
+      );
+    }
+  }
+
+  getDetections(requestId: string): NPlusOneDetection[] {
+    const reads = this.requests.get(requestId)?.values() ?? [];
+    return [...reads].filter(({ count }) => count >= this.options.threshold);
+  }
+
+  forget(requestId: string) {
+    this.requests.delete(requestId);
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    const { config } = fastify;
+    const detector = new NPlusOneDetector({
+      threshold: config.N_PLUS_ONE_THRESHOLD,
+      strict: config.N_PLUS_ONE_STRICT,
+    });
+    fastify.decorate('nPlusOne', detector);
+
+    if (!detector.enabled) {
+      return;
+    }
+
+    fastify.addHook('onSend', async (req, reply) => {
+      const detections = detector.getDetections(String(req.id));
+      if (config.N_PLUS_ONE_EXPOSE && detections.length > 0) {
+        void reply.header(
+          'x-n-plus-one',
+          detections
+            .map(({ model, operation, count }) => `${model}.${operation}=${count}`)
+            .join(', '),
+        );
+      }
+    });
+
+    fastify.addHook('onResponse', async (req) => {
+      const requestId = String(req.id);
+      const detections = detector.getDetections(requestId);
+      if (detections.length > 0) {
+        req.log.warn({ nPlusOne: detections }, 'Repeated database reads detected.');
+      }
+      detector.forget(requestId);
+    });
+  },
+  {
+    name: nPlusOnePluginTag,
+    dependencies: [envPluginTag, requestContextPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    nPlusOne: NPlusOneDetector;
+  }
+}
@@ -0,0 +1,148 @@
+import fp from 'fastify-plugin';
+import { PrismaClient, User } from '@prisma/client';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { envPluginTag } from './env.js';
+import { dbPluginTag } from './db.js';
+
+export interface PolicyOptions {
+  /** Users allowed to restore accounts and run maintenance, see `ADMIN_USER_IDS`. */
+  adminIds: string[];
+}
+
+/**
+ * Ownership rules shared by the REST handlers and the GraphQL resolvers. Every
+ * check resolves when the viewer may proceed and throws a 401/403/404 otherwise;
+ * anonymous callers never pass, whatever `AUTH_REQUIRED` says about reads.
+ */
+export class Policy {
+  constructor(
+    private prisma: PrismaClient,
+    private options: PolicyOptions,
+  ) {}
+
+  /** Posts are created, changed and deleted by their author only. */
+  async assertPostAuthor(
+    viewer: User | null,
+    post: { id: string } | { authorId: string },
+  ) {
+    this.assertAuthenticated(viewer);
+    const authorId =
+      'authorId' in post ? post.authorId : (await this.findPost(post.id)).authorId;
+    this.assertOwner(viewer, authorId, 'Only the author can modify this post.');
+  }
+
+  /** Profiles are created, changed and deleted by their user only. */
+  async assertProfileOwner(
+    viewer: User | null,
+    profile: { id: string } | { userId: string },
+  ) {
+    this.assertAuthenticated(viewer);
+    const userId =
+      'userId' in profile ? profile.userId : (await this.findProfile(profile.id)).userId;
+    this.assertOwner(viewer, userId, 'Only the owner can modify this profile.');
+  }
+
+  /**
+   * The member type sets the post limit and the discount of a user, so only
+   * administrators change it; the rest of a profile is left to its owner.
+   */
+  async assertProfileChange(
+    viewer: User | null,
+    id: string,
+    change: { memberTypeId?: string },
+  ) {
+    if (change.memberTypeId !== undefined) {
+      this.assertAdmin(viewer);
+      return;
+    }
+    await this.assertProfileOwner(viewer, { id });
+  }
+
+  /** Subscriptions are created and removed by the subscriber only. */
+  async assertSubscriber(viewer: User | null, subscriberId: string) {
+    this.assertAuthenticated(viewer);
+    this.assertOwner(
+      viewer,
+      subscriberId,
+      'Only the subscriber can change this subscription.',
+    );
+  }
+
+  /**
+   * Accounts, the money on them and their feeds are handled by their user or an
+   * administrator.
+   */
+  assertOwnerOrAdmin(viewer: User | null, userId: string) {
+    this.assertAuthenticated(viewer);
+    if (viewer.id !== userId && !this.isAdmin(viewer)) {
+      throw new HttpCompatibleError(
+        403,
+        'Only the user or an administrator can do this.',
+      );
+    }
+  }
+
+  /** Administrators are named in the configuration; anonymous callers never are. */
+  assertAdmin(viewer: User | null) {
+    this.assertAuthenticated(viewer);
+    if (!this.isAdmin(viewer)) {
+      throw new HttpCompatibleError(403, 'Only administrators can do this.');
+    }
+  }
+
+  /** Whatever is served for the viewer alone, like their live feed, needs a viewer. */
+  assertAuthenticated(viewer: User | null): asserts viewer is User {
+    if (viewer === null) {
+      throw new HttpCompatibleError(401, 'Authentication required.');
+    }
+  }
+
+  private isAdmin(viewer: User) {
+    return this.options.adminIds.includes(viewer.id);
+  }
+
+  private assertOwner(viewer: User, ownerId: string, message: string) {
+    if (viewer.id !== ownerId) {
+      throw new HttpCompatibleError(403, message);
+    }
+  }
+
+  private async findPost(id: string) {
+    const post = await this.prisma.post.findUnique({ where: { id } });
+    if (post === null) {
+      throw new HttpCompatibleError(404, 'Post not found.');
+    }
+    return post;
+  }
+
+  private async findProfile(id: string) {
+    const profile = await this.prisma.profile.findUnique({ where: { id } });
+    if (profile === null) {
+      throw new HttpCompatibleError(404, 'Profile not found.');
+    }
+    return profile;
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    const { config } = fastify;
+    fastify.decorate(
+      'policy',
+      new Policy(fastify.prisma, {
+        adminIds: config.ADMIN_USER_IDS.split(',')
+          .map((id) => id.trim())
+          .filter(Boolean),
+      }),
+    );
+  },
+  {
+    dependencies: [envPluginTag, dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    policy: Policy;
+  }
+}
@@ -0,0 +1,94 @@
+import fp from 'fastify-plugin';
+import { Post, Prisma, PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { dbPluginTag, withSoftDeleted } from './db.js';
+import { postQuotaSchema } from '../routes/users/_userId/post-quota/schemas.js';
+
+export type PostQuotaReport = Static<typeof postQuotaSchema>;
+
+type PrismaTransactionClient = Prisma.TransactionClient | PrismaClient;
+
+// Quotas follow calendar months in UTC, so every instance agrees on when they reset.
+export const getMonthBounds = (now: Date) => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+/** `limit` is `null` for users without a profile, who have no limit. */
+export const toPostQuotaReport = (
+  limit: number | null,
+  used: number,
+  resetsAt: Date,
+): PostQuotaReport => ({
+  limit,
+  used,
+  remaining: limit === null ? null : Math.max(limit - used, 0),
+  resetsAt,
+});
+
+export class PostQuota {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Returns `null` for unknown users; users without a profile have no limit. */
+  getQuota(userId: string, now = new Date()) {
+    return this.computeQuota(this.prisma, userId, now);
+  }
+
+  /** Creates the post unless its author has used up this month's quota. */
+  createPost(data: Prisma.PostUncheckedCreateInput): Promise<Post> {
+    return this.prisma.$transaction(async (tx) => {
+      const quota = await this.computeQuota(tx, data.authorId, new Date());
+      if (quota !== null && quota.limit !== null && quota.used >= quota.limit) {
+        const resetsAt = quota.resetsAt.toISOString();
+        throw new HttpCompatibleError(
+          429,
+          `Monthly limit of ${quota.limit} posts is reached; it resets at ${resetsAt}.`,
+        );
+      }
+      return tx.post.create({ data });
+    });
+  }
+
+  private async computeQuota(
+    prisma: PrismaTransactionClient,
+    userId: string,
+    now: Date,
+  ): Promise<PostQuotaReport | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { profile: { select: { memberType: true } } },
+    });
+    if (user === null) {
+      return null;
+    }
+
+    const { start, end } = getMonthBounds(now);
+    // Deleting a post does not give its slot back.
+    const used = await withSoftDeleted(() =>
+      prisma.post.count({
+        where: { authorId: userId, createdAt: { gte: start, lt: end } },
+      }),
+    );
+    return toPostQuotaReport(
+      user.profile?.memberType.postsLimitPerMonth ?? null,
+      used,
+      end,
+    );
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('postQuota', new PostQuota(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    postQuota: PostQuota;
+  }
+}
@@ -0,0 +1,107 @@
+import fp from 'fastify-plugin';
+import { Static } from '@sinclair/typebox';
+import {
+  prismaOperationSchema,
+  prismaStatsSummarySchema,
+} from '../routes/stats/schemas.js';
+import { envPluginTag } from './env.js';
+import { requestContext, requestContextPluginTag } from './request-context.js';
+
+export type PrismaOperation = Static<typeof prismaOperationSchema>;
+export type PrismaStatsSummary = Static<typeof prismaStatsSummarySchema>;
+
+export const prismaStatsPluginTag = 'prismaStatsPluginTag';
+
+// Nearest-rank percentile of an ascending list.
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)] ?? 0;
+
+/** Keeps the latest `capacity` operations; older ones are overwritten. */
+export class PrismaStats {
+  private buffer: PrismaOperation[] = [];
+  private next = 0;
+
+  constructor(public readonly capacity: number) {}
+
+  record(operation: PrismaOperation) {
+    if (this.capacity <= 0) {
+      return;
+    }
+    this.buffer[this.next] = operation;
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /** Oldest first. */
+  get operationHistory(): PrismaOperation[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  reset() {
+    this.buffer = [];
+    this.next = 0;
+  }
+
+  summarize(): PrismaStatsSummary {
+    const groups = new Map<string, PrismaOperation[]>();
+    this.buffer.forEach((operation) => {
+      const key = `${operation.model}.${operation.operation}`;
+      const group = groups.get(key);
+      if (group) {
+        group.push(operation);
+      } else {
+        groups.set(key, [operation]);
+      }
+    });
+
+    const operations = [...groups.values()].map((group) => {
+      const durations = group.map(({ durationMs }) => durationMs).sort((a, b) => a - b);
+      return {
+        model: group[0].model,
+        operation: group[0].operation,
+        count: group.length,
+        errorCount: group.filter(({ success }) => !success).length,
+        p50Ms: percentile(durations, 50),
+        p95Ms: percentile(durations, 95),
+      };
+    });
+    return {
+      size: this.buffer.length,
+      capacity: this.capacity,
+      operations: operations.sort(
+        (a, b) =>
+          a.model.localeCompare(b.model) || a.operation.localeCompare(b.operation),
+      ),
+    };
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate(
+      'prismaStats',
+      new PrismaStats(fastify.config.PRISMA_STATS_HISTORY_SIZE),
+    );
+    // Runs before the viewer is looked up, so that lookup is left out as well.
+    fastify.addHook('onRequest', async (req) => {
+      const context = requestContext.getStore();
+      if (context && req.routeConfig.excludeFromPrismaStats) {
+        context.excludeFromPrismaStats = true;
+      }
+    });
+  },
+  {
+    name: prismaStatsPluginTag,
+    dependencies: [envPluginTag, requestContextPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    prismaStats: PrismaStats;
+  }
+
+  export interface FastifyContextConfig {
+    /** Keeps the queries of a route out of the stats, e.g. of the routes reading them. */
+    excludeFromPrismaStats?: boolean;
+  }
+}
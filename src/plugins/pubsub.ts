@@ -0,0 +1,72 @@
+import fp from 'fastify-plugin';
+import { EventEmitter, on } from 'node:events';
+import { Post, User } from '@prisma/client';
+
+export interface PubSubEvents {
+  postCreated: Post;
+  userSubscribed: { subscriber: User; authorId: string };
+  userUnsubscribed: { subscriberId: string; authorId: string };
+}
+
+export interface SubscribeOptions<T> {
+  filter?: (payload: T) => boolean;
+  onClose?: () => void;
+}
+
+export class PubSub {
+  private emitter = new EventEmitter().setMaxListeners(0);
+
+  publish<K extends keyof PubSubEvents>(event: K, payload: PubSubEvents[K]) {
+    this.emitter.emit(event, payload);
+  }
+
+  listen<K extends keyof PubSubEvents>(
+    event: K,
+    listener: (payload: PubSubEvents[K]) => void,
+  ) {
+    this.emitter.on(event, listener);
+    return () => void this.emitter.off(event, listener);
+  }
+
+  // Hand-rolled instead of an async generator: a generator can't be returned while it
+  // awaits the next event, which would keep closed subscriptions alive until then.
+  subscribe<K extends keyof PubSubEvents>(
+    event: K,
+    { filter = () => true, onClose }: SubscribeOptions<PubSubEvents[K]> = {},
+  ): AsyncIterableIterator<PubSubEvents[K]> {
+    const events = on(this.emitter, event) as AsyncIterableIterator<[PubSubEvents[K]]>;
+    const iterator: AsyncIterableIterator<PubSubEvents[K]> = {
+      async next() {
+        for (;;) {
+          const result = await events.next();
+          if (result.done) {
+            return { done: true, value: undefined };
+          }
+          const [payload] = result.value;
+          if (filter(payload)) {
+            return { done: false, value: payload };
+          }
+        }
+      },
+      async return() {
+        onClose?.();
+        await events.return?.();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+    return iterator;
+  }
+}
+
+export default fp(async (fastify) => {
+  fastify.decorate('pubsub', new PubSub());
+});
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    pubsub: PubSub;
+  }
+}
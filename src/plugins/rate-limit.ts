@@ -0,0 +1,174 @@
+import fp from 'fastify-plugin';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ProblemError } from './handle-http-error.js';
+import { envPluginTag } from './env.js';
+import { authPluginTag } from './auth.js';
+
+export interface TokenBucket {
+  tokens: number;
+  /** Epoch milliseconds of the last refill. */
+  updatedAt: number;
+}
+
+/**
+ * Keeps the buckets of all clients. A store shared by several processes must
+ * apply `update` atomically, otherwise concurrent requests spend the same tokens.
+ */
+export interface RateLimitStore {
+  update(
+    key: string,
+    update: (bucket: TokenBucket | undefined) => TokenBucket,
+  ): Promise<TokenBucket>;
+}
+
+export interface RateLimitOptions {
+  /** Size of a full bucket; 0 turns the limiter off. */
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  reset: number;
+  /** Seconds until the rejected cost is affordable, 0 when allowed. */
+  retryAfter: number;
+}
+
+export const rateLimitPluginTag = 'rateLimitPluginTag';
+
+/** Keeps the most recently used buckets, dropping the oldest once `maxSize` is reached. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private maxSize = 10000) {}
+
+  async update(key: string, update: (bucket: TokenBucket | undefined) => TokenBucket) {
+    const bucket = update(this.buckets.get(key));
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > this.maxSize) {
+      const [oldestKey] = this.buckets.keys();
+      this.buckets.delete(oldestKey);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Token buckets keyed by client. Every request spends tokens, REST routes a
+ * fixed amount and GraphQL operations their computed cost, and the bucket
+ * refills continuously up to its capacity.
+ */
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private options: RateLimitOptions,
+  ) {}
+
+  get enabled() {
+    return this.options.capacity > 0;
+  }
+
+  /** Authenticated callers share a bucket across addresses, anonymous ones get one per address. */
+  keyFor(req: FastifyRequest) {
+    return req.viewer ? `user:${req.viewer.id}` : `ip:${req.ip}`;
+  }
+
+  async consume(key: string, cost: number, now = Date.now()): Promise<RateLimitResult> {
+    const { capacity, refillPerSecond } = this.options;
+    let allowed = false;
+    const { tokens } = await this.store.update(key, (bucket) => {
+      const elapsed = bucket ? (now - bucket.updatedAt) / 1000 : 0;
+      const available = bucket
+        ? Math.min(capacity, bucket.tokens + elapsed * refillPerSecond)
+        : capacity;
+      allowed = available >= cost;
+      return { tokens: allowed ? available - cost : available, updatedAt: now };
+    });
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      reset: Math.ceil((capacity - tokens) / refillPerSecond),
+      retryAfter: allowed
+        ? 0
+        : Math.ceil((Math.min(cost, capacity) - tokens) / refillPerSecond),
+    };
+  }
+
+  /** Spends `cost` tokens of the caller, reporting the bucket in `RateLimit-*` headers. */
+  async charge(req: FastifyRequest, reply: FastifyReply, cost: number) {
+    if (!this.enabled) {
+      return;
+    }
+
+    const { capacity, refillPerSecond } = this.options;
+    const result = await this.consume(this.keyFor(req), cost);
+    void reply.headers({
+      'ratelimit-policy': `${capacity};w=${Math.ceil(capacity / refillPerSecond)}`,
+      'ratelimit-limit': result.limit,
+      'ratelimit-remaining': result.remaining,
+      'ratelimit-reset': result.reset,
+    });
+    if (cost > capacity) {
+      throw new ProblemError(
+        429,
+        `Rate limit exceeded: the request costs ${cost} tokens, more than the limit of ${capacity}.`,
+      );
+    }
+    if (!result.allowed) {
+      void reply.header('retry-after', result.retryAfter);
+      throw new ProblemError(
+        429,
+        `Rate limit exceeded: the request costs ${cost} of ${result.remaining} remaining tokens; retry in ${result.retryAfter} seconds.`,
+      );
+    }
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    const { config } = fastify;
+    const rateLimiter = new RateLimiter(new MemoryRateLimitStore(), {
+      capacity: config.RATE_LIMIT_CAPACITY,
+      refillPerSecond: config.RATE_LIMIT_REFILL_PER_SECOND,
+    });
+    fastify.decorate('rateLimiter', rateLimiter);
+
+    if (!rateLimiter.enabled) {
+      return;
+    }
+    if (config.RATE_LIMIT_CAPACITY < config.GQL_MAX_COST) {
+      fastify.log.warn(
+        'RATE_LIMIT_CAPACITY is below GQL_MAX_COST; the most expensive operations will always be rejected.',
+      );
+    }
+
+    // Runs after the auth hook, so that authenticated callers are keyed by their user.
+    fastify.addHook('onRequest', async (req, reply) => {
+      const cost = req.routeConfig.rateLimitCost ?? config.RATE_LIMIT_REST_COST;
+      if (cost > 0) {
+        await rateLimiter.charge(req, reply, cost);
+      }
+    });
+  },
+  {
+    name: rateLimitPluginTag,
+    dependencies: [envPluginTag, authPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    rateLimiter: RateLimiter;
+  }
+
+  export interface FastifyContextConfig {
+    /** Overrides `RATE_LIMIT_REST_COST`; 0 leaves charging to the route handler. */
+    rateLimitCost?: number;
+  }
+}
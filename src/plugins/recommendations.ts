@@ -0,0 +1,161 @@
+import fp from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { dbPluginTag } from './db.js';
+import { recommendedAuthorSchema } from '../routes/users/_userId/recommended-authors/schemas.js';
+
+export type RecommendedAuthor = Static<typeof recommendedAuthorSchema>;
+
+type Signals = Pick<
+  RecommendedAuthor,
+  'followedByFollowing' | 'sharedSubscribers' | 'recentPosts'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECENT_DAYS = 30;
+// Authors with the most recent posts are candidates too, so new users get suggestions.
+const ACTIVE_AUTHOR_CANDIDATES = 50;
+
+// Graph signals dominate; activity only breaks ties and fills up short lists,
+// and stops counting after a post every third day.
+const weights: Signals = {
+  followedByFollowing: 3,
+  sharedSubscribers: 2,
+  recentPosts: 0.5,
+};
+const MAX_RECENT_POSTS = 10;
+
+const getScore = ({ followedByFollowing, sharedSubscribers, recentPosts }: Signals) =>
+  followedByFollowing * weights.followedByFollowing +
+  sharedSubscribers * weights.sharedSubscribers +
+  Math.min(recentPosts, MAX_RECENT_POSTS) * weights.recentPosts;
+
+const plural = (count: number, one: string, many: string) =>
+  `${count} ${count === 1 ? one : many}`;
+
+const explain = ({ followedByFollowing, sharedSubscribers, recentPosts }: Signals) =>
+  [
+    followedByFollowing > 0 &&
+      `followed by ${plural(followedByFollowing, 'person', 'people')} you follow`,
+    sharedSubscribers > 0 && `followed by ${sharedSubscribers} of your subscribers`,
+    recentPosts > 0 &&
+      `posted ${plural(recentPosts, 'time', 'times')} in the last ${RECENT_DAYS} days`,
+  ]
+    .filter(Boolean)
+    .join('; ');
+
+/**
+ * "Who to follow": ranks the users a user does not follow yet by how many of the
+ * people they follow and of their subscribers follow them, and by recent posts.
+ */
+export class Recommendations {
+  constructor(private prisma: PrismaClient) {}
+
+  /** Returns `null` for unknown users. */
+  async recommendAuthors(
+    userId: string,
+    limit: number,
+    now = new Date(),
+  ): Promise<RecommendedAuthor[] | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { userSubscribedTo: true, subscribedToUser: true },
+    });
+    if (user === null) {
+      return null;
+    }
+
+    const following = new Set(user.userSubscribedTo.map(({ authorId }) => authorId));
+    const subscribers = new Set(
+      user.subscribedToUser.map(({ subscriberId }) => subscriberId),
+    );
+    const recentSince = new Date(now.getTime() - RECENT_DAYS * DAY_MS);
+
+    const [edges, activeAuthors] = await Promise.all([
+      this.prisma.subscribersOnAuthors.findMany({
+        where: { subscriberId: { in: [...following, ...subscribers] } },
+      }),
+      this.prisma.post.groupBy({
+        by: ['authorId'],
+        where: { createdAt: { gte: recentSince } },
+        orderBy: { _count: { authorId: 'desc' } },
+        take: ACTIVE_AUTHOR_CANDIDATES,
+      }),
+    ]);
+
+    const signals = new Map<string, Signals>();
+    const getSignals = (authorId: string) => {
+      let authorSignals = signals.get(authorId);
+      if (authorSignals === undefined) {
+        authorSignals = { followedByFollowing: 0, sharedSubscribers: 0, recentPosts: 0 };
+        signals.set(authorId, authorSignals);
+      }
+      return authorSignals;
+    };
+    edges.forEach(({ subscriberId, authorId }) => {
+      const authorSignals = getSignals(authorId);
+      if (following.has(subscriberId)) {
+        authorSignals.followedByFollowing += 1;
+      }
+      if (subscribers.has(subscriberId)) {
+        authorSignals.sharedSubscribers += 1;
+      }
+    });
+    activeAuthors.forEach(({ authorId }) => getSignals(authorId));
+    signals.delete(userId);
+    following.forEach((authorId) => signals.delete(authorId));
+
+    const recentPosts = await this.prisma.post.groupBy({
+      by: ['authorId'],
+      where: { authorId: { in: [...signals.keys()] }, createdAt: { gte: recentSince } },
+      _count: { _all: true },
+    });
+    recentPosts.forEach(({ authorId, _count }) => {
+      getSignals(authorId).recentPosts = _count._all;
+    });
+
+    // Ties go to the lower id, so the order is stable between requests.
+    const ranked = [...signals]
+      .map(([authorId, authorSignals]) => ({
+        authorId,
+        signals: authorSignals,
+        score: getScore(authorSignals),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || (a.authorId < b.authorId ? -1 : 1))
+      .slice(0, limit);
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: ranked.map(({ authorId }) => authorId) } },
+    });
+    const usersById = new Map(users.map((author) => [author.id, author]));
+    return ranked.flatMap(({ authorId, signals: authorSignals, score }) => {
+      const author = usersById.get(authorId);
+      return author === undefined
+        ? []
+        : [
+            {
+              user: author,
+              score,
+              ...authorSignals,
+              explanation: explain(authorSignals),
+            },
+          ];
+    });
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('recommendations', new Recommendations(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    recommendations: Recommendations;
+  }
+}
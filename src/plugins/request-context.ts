@@ -0,0 +1,40 @@
+import fp from 'fastify-plugin';
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+  /** Path of the GraphQL field being resolved, without list indexes. */
+  path?: string;
+  /** The authenticated caller, recorded in the audit log. */
+  actorId?: string;
+  /** The REST route or GraphQL operation that is being served. */
+  source?: string;
+  /** Set for routes whose queries stay out of the Prisma stats, see `prisma-stats.ts`. */
+  excludeFromPrismaStats?: boolean;
+}
+
+export const requestContextPluginTag = 'requestContextPluginTag';
+
+// Lets code far away from the request, like Prisma extensions, tell which request it serves.
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('requestContext', requestContext);
+    fastify.addHook('onRequest', (req, reply, done) => {
+      const requestId = String(req.id);
+      void reply.header('x-request-id', requestId);
+      const source = `${req.method} ${req.routeOptions.url}`;
+      requestContext.run({ requestId, source }, done);
+    });
+  },
+  {
+    name: requestContextPluginTag,
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    requestContext: AsyncLocalStorage<RequestContext>;
+  }
+}
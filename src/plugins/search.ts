@@ -0,0 +1,129 @@
+import fp from 'fastify-plugin';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { dbPluginTag } from './db.js';
+import { SearchEntity, searchHitSchema } from '../routes/search/schemas.js';
+
+export type SearchHit = Static<typeof searchHitSchema>;
+
+export interface SearchQuery {
+  text: string;
+  types?: SearchEntity[];
+  limit: number;
+  offset: number;
+}
+
+interface IndexHit {
+  entity: SearchEntity;
+  id: string;
+  score: number;
+  title: string;
+  snippet: string;
+}
+
+const SNIPPET_TOKENS = 16;
+
+// FTS5 wraps matches in these private-use characters; the text around them is
+// user content, so it is escaped before they become <mark> tags.
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+
+const htmlEntities: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const toMarkedHtml = (text: string) =>
+  text
+    .replace(/[&<>"']/g, (char) => htmlEntities[char])
+    .replaceAll(MARK_START, '<mark>')
+    .replaceAll(MARK_END, '</mark>');
+
+// Every word of the text becomes a quoted prefix term, so FTS5 syntax in it stays inert.
+const toMatchQuery = (text: string) =>
+  (text.match(/[\p{L}\p{N}_]+/gu) ?? []).map((term: string) => `"${term}"*`).join(' ');
+
+/**
+ * Ranked full-text search over post titles and contents and user names, backed by
+ * the `SearchIndex` FTS5 table that triggers keep in sync with `Post` and `User`.
+ */
+export class Search {
+  constructor(private prisma: PrismaClient) {}
+
+  async search({
+    text,
+    types = Object.values(SearchEntity),
+    limit,
+    offset,
+  }: SearchQuery): Promise<SearchHit[]> {
+    const match = toMatchQuery(text);
+    if (match === '' || types.length === 0 || limit === 0) {
+      return [];
+    }
+
+    // bm25 weighs a title match ten times a content match; it ranks better hits lower.
+    // Soft-deleted rows stay indexed until they are purged, so they are filtered out
+    // here together with the posts of deleted authors.
+    const hits = await this.prisma.$queryRaw<IndexHit[]>`
+      SELECT
+        "SearchIndex"."entity" AS "entity",
+        "SearchIndex"."entityId" AS "id",
+        -bm25("SearchIndex", 0, 0, 10, 1) AS "score",
+        highlight("SearchIndex", 2, ${MARK_START}, ${MARK_END}) AS "title",
+        snippet("SearchIndex", 3, ${MARK_START}, ${MARK_END}, '…', ${SNIPPET_TOKENS}) AS "snippet"
+      FROM "SearchIndex"
+      WHERE "SearchIndex" MATCH ${match}
+        AND "SearchIndex"."entity" IN (${Prisma.join(types)})
+        AND (
+          ("SearchIndex"."entity" = ${SearchEntity.POST} AND EXISTS (
+            SELECT 1 FROM "Post" p JOIN "User" a ON a."id" = p."authorId"
+            WHERE p."id" = "SearchIndex"."entityId"
+              AND p."deletedAt" IS NULL
+              AND a."deletedAt" IS NULL
+          ))
+          OR ("SearchIndex"."entity" = ${SearchEntity.USER} AND EXISTS (
+            SELECT 1 FROM "User" u
+            WHERE u."id" = "SearchIndex"."entityId" AND u."deletedAt" IS NULL
+          ))
+        )
+      ORDER BY "score" DESC, "SearchIndex"."entityId"
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const idsOf = (entity: SearchEntity) =>
+      hits.filter((hit) => hit.entity === entity).map(({ id }) => id);
+    const [posts, users] = await Promise.all([
+      this.prisma.post.findMany({ where: { id: { in: idsOf(SearchEntity.POST) } } }),
+      this.prisma.user.findMany({ where: { id: { in: idsOf(SearchEntity.USER) } } }),
+    ]);
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return hits.map((hit) => ({
+      ...hit,
+      score: Number(hit.score),
+      title: toMarkedHtml(hit.title),
+      snippet: toMarkedHtml(hit.snippet),
+      post: hit.entity === SearchEntity.POST ? postsById.get(hit.id) ?? null : null,
+      user: hit.entity === SearchEntity.USER ? usersById.get(hit.id) ?? null : null,
+    }));
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('search', new Search(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    search: Search;
+  }
+}
@@ -0,0 +1,85 @@
+import fp from 'fastify-plugin';
+import { PrismaClient, User } from '@prisma/client';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { dbPluginTag } from './db.js';
+
+const MAX_PATH_DEPTH = 6;
+// Users a single path search may reach before it gives up instead of scanning on.
+const MAX_PATH_VISITED = 10_000;
+
+/** Questions about the subscription graph that do not fit a DataLoader. */
+export class SocialGraph {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Returns the users of a shortest chain of subscriptions from `fromUserId` to
+   * `toUserId`, both included, or `null` when it is longer than `maxDepth` links.
+   * The graph is searched breadth first with one query per level.
+   */
+  async findPath(
+    fromUserId: string,
+    toUserId: string,
+    maxDepth: number,
+  ): Promise<User[] | null> {
+    if (maxDepth < 1 || maxDepth > MAX_PATH_DEPTH) {
+      throw new HttpCompatibleError(
+        400,
+        `"maxDepth" must be between 1 and ${MAX_PATH_DEPTH}.`,
+      );
+    }
+
+    // Maps every reached user to the one who follows them on the way from the start.
+    const previous = new Map<string, string | null>([[fromUserId, null]]);
+    let frontier = [fromUserId];
+    for (let depth = 0; depth < maxDepth && !previous.has(toUserId); depth += 1) {
+      if (frontier.length === 0) {
+        return null;
+      }
+      const edges = await this.prisma.subscribersOnAuthors.findMany({
+        where: { subscriberId: { in: frontier } },
+        select: { subscriberId: true, authorId: true },
+      });
+      frontier = [];
+      edges.forEach(({ subscriberId, authorId }) => {
+        if (!previous.has(authorId)) {
+          previous.set(authorId, subscriberId);
+          frontier.push(authorId);
+        }
+      });
+      if (previous.size > MAX_PATH_VISITED && !previous.has(toUserId)) {
+        throw new HttpCompatibleError(
+          422,
+          `The search reached more than ${MAX_PATH_VISITED} users; lower "maxDepth".`,
+        );
+      }
+    }
+    if (!previous.has(toUserId)) {
+      return null;
+    }
+
+    const ids: string[] = [];
+    for (let id: string | null | undefined = toUserId; id; id = previous.get(id)) {
+      ids.unshift(id);
+    }
+    const users = await this.prisma.user.findMany({ where: { id: { in: ids } } });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    // A start user that does not exist, or was deleted, has no path.
+    const path = ids.map((id) => usersById.get(id));
+    return path.every((user): user is User => user !== undefined) ? path : null;
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate('socialGraph', new SocialGraph(fastify.prisma));
+  },
+  {
+    dependencies: [dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    socialGraph: SocialGraph;
+  }
+}
@@ -0,0 +1,106 @@
+import fp from 'fastify-plugin';
+import { PrismaClient } from '@prisma/client';
+import { Static } from '@sinclair/typebox';
+import { HttpCompatibleError } from './handle-http-error.js';
+import { envPluginTag } from './env.js';
+import { dbPluginTag } from './db.js';
+import { purgeReportSchema } from '../routes/admin/schemas.js';
+
+export interface SoftDeleteOptions {
+  /** Days a deleted row stays restorable before `purge` may remove it. */
+  retentionDays: number;
+}
+
+export type PurgeReport = Static<typeof purgeReportSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Users and posts are only marked as deleted, which hides them together with
+ * everything of a deleted user (see `db.ts`) until they are restored or purged.
+ */
+export class SoftDelete {
+  constructor(
+    private prisma: PrismaClient,
+    private options: SoftDeleteOptions,
+  ) {}
+
+  async deleteUser(id: string) {
+    await this.prisma.user.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+
+  async deletePost(id: string) {
+    await this.prisma.post.update({ where: { id }, data: { deletedAt: new Date() } });
+  }
+
+  async findDeletedUser(id: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+    if (user === null) {
+      throw new HttpCompatibleError(404, 'Deleted user not found.');
+    }
+    return user;
+  }
+
+  /** Posts of a deleted author stay hidden, so they are restored with the author instead. */
+  async findDeletedPost(id: string) {
+    const post = await this.prisma.post.findFirst({
+      where: { id, deletedAt: { not: null }, author: { deletedAt: null } },
+    });
+    if (post === null) {
+      throw new HttpCompatibleError(404, 'Deleted post not found.');
+    }
+    return post;
+  }
+
+  async restoreUser(id: string) {
+    await this.findDeletedUser(id);
+    return this.prisma.user.update({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
+  }
+
+  async restorePost(id: string) {
+    await this.findDeletedPost(id);
+    return this.prisma.post.update({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
+  }
+
+  /**
+   * Removes rows deleted before the retention window for good. Removing a user
+   * cascades to its posts, profile and subscriptions, like a hard delete did.
+   */
+  purge(now = new Date()): Promise<PurgeReport> {
+    const deletedBefore = new Date(now.getTime() - this.options.retentionDays * DAY_MS);
+    const where = { deletedAt: { lt: deletedBefore } };
+    return this.prisma.$transaction(async (tx) => {
+      const { count: users } = await tx.user.deleteMany({ where });
+      const { count: posts } = await tx.post.deleteMany({ where });
+      return { deletedBefore, users, posts };
+    });
+  }
+}
+
+export default fp(
+  async (fastify) => {
+    fastify.decorate(
+      'softDelete',
+      new SoftDelete(fastify.prisma, {
+        retentionDays: fastify.config.SOFT_DELETE_RETENTION_DAYS,
+      }),
+    );
+  },
+  {
+    dependencies: [envPluginTag, dbPluginTag],
+  },
+);
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    softDelete: SoftDelete;
+  }
+}
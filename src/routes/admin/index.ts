@@ -0,0 +1,53 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { Readable } from 'node:stream';
+import { importReportSchema, purgeReportSchema } from './schemas.js';
+
+const NDJSON = 'application/x-ndjson';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { policy, softDelete, dataTransfer, httpErrors } = fastify;
+
+  fastify.addHook('onRequest', async (req) => policy.assertAdmin(req.viewer));
+
+  // Imports are read line by line instead of being buffered up to the body limit.
+  fastify.addContentTypeParser(NDJSON, (_req, payload, done) => done(null, payload));
+
+  fastify.route({
+    url: '/purge',
+    method: 'POST',
+    schema: {
+      response: {
+        200: purgeReportSchema,
+      },
+    },
+    async handler() {
+      return softDelete.purge();
+    },
+  });
+
+  fastify.route({
+    url: '/export',
+    method: 'GET',
+    async handler(_req, reply) {
+      return reply.type(NDJSON).send(dataTransfer.export());
+    },
+  });
+
+  fastify.route({
+    url: '/import',
+    method: 'POST',
+    schema: {
+      response: {
+        200: importReportSchema,
+      },
+    },
+    async handler(req) {
+      if (!(req.body instanceof Readable)) {
+        throw httpErrors.unsupportedMediaType(`Send the data as ${NDJSON}.`);
+      }
+      return dataTransfer.import(req.body);
+    },
+  });
+};
+
+export default plugin;
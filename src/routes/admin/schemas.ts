@@ -0,0 +1,43 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { memberTypeSchema } from '../member-types/schemas.js';
+import { userFields, userSchema } from '../users/schemas.js';
+import { profileSchema } from '../profiles/schemas.js';
+import { postSchema } from '../posts/schemas.js';
+
+export const purgeReportSchema = Type.Object({
+  deletedBefore: Type.Unsafe<Date>({
+    type: 'string',
+    format: 'date-time',
+  }),
+  users: Type.Integer(),
+  posts: Type.Integer(),
+});
+
+export const subscriptionSchema = Type.Object({
+  subscriberId: userFields.id,
+  authorId: userFields.id,
+});
+
+// Data of the models in NDJSON lines `{ "model": ..., "data": ... }`, in the order
+// they are exported and have to be imported: referenced rows first.
+export const dataLineSchemas = {
+  MemberType: memberTypeSchema,
+  User: userSchema,
+  Profile: profileSchema,
+  Post: postSchema,
+  SubscribersOnAuthors: subscriptionSchema,
+};
+
+export type DataModel = keyof typeof dataLineSchemas;
+
+export const importReportSchema = Type.Object({
+  lines: Type.Integer(),
+  imported: Type.Integer(),
+  // Lines are numbered from 1; invalid and failing lines are skipped.
+  errors: Type.Array(
+    Type.Object({
+      line: Type.Integer(),
+      message: Type.String(),
+    }),
+  ),
+});
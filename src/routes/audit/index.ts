@@ -0,0 +1,32 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { auditLogSchema, getAuditLogSchema } from './schemas.js';
+import { parseAuditLog } from '../../plugins/db.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { prisma, policy } = fastify;
+
+  // The log keeps the changes of every user, so only administrators read it.
+  fastify.addHook('onRequest', async (req) => policy.assertAdmin(req.viewer));
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getAuditLogSchema,
+      response: {
+        200: Type.Array(auditLogSchema),
+      },
+    },
+    async handler(req) {
+      const { entity, entityId, limit } = req.query;
+      const logs = await prisma.auditLog.findMany({
+        where: { entity, entityId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+      });
+      return logs.map(parseAuditLog);
+    },
+  });
+};
+
+export default plugin;
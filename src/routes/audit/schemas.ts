@@ -0,0 +1,63 @@
+import { Type } from '@fastify/type-provider-typebox';
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+export enum AuditedEntity {
+  USER = 'User',
+  POST = 'Post',
+  PROFILE = 'Profile',
+  SUBSCRIBERS_ON_AUTHORS = 'SubscribersOnAuthors',
+}
+
+export const auditLogFields = {
+  id: Type.String({
+    format: 'uuid',
+  }),
+  action: Type.String({
+    pattern: Object.values(AuditAction).join('|'),
+  }),
+  entity: Type.String({
+    pattern: Object.values(AuditedEntity).join('|'),
+  }),
+  // Subscriptions have no id of their own, they are named `subscriberId:authorId`.
+  entityId: Type.String(),
+  actorId: Type.Union([Type.String(), Type.Null()]),
+  source: Type.String(),
+  // Only the fields that changed; values of secrets are replaced with a placeholder.
+  changes: Type.Record(
+    Type.String(),
+    Type.Object({
+      before: Type.Unknown(),
+      after: Type.Unknown(),
+    }),
+  ),
+  createdAt: Type.Unsafe<Date>({
+    type: 'string',
+    format: 'date-time',
+  }),
+};
+
+export const auditLogSchema = Type.Object({
+  ...auditLogFields,
+});
+
+export const getAuditLogSchema = {
+  querystring: Type.Object(
+    {
+      entity: Type.Optional(auditLogFields.entity),
+      entityId: Type.Optional(auditLogFields.entityId),
+      limit: Type.Integer({
+        minimum: 1,
+        maximum: 1000,
+        default: 100,
+      }),
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
@@ -0,0 +1,45 @@
+import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { loginSchema, tokenSchema } from './schemas.js';
+import { userSchema } from '../users/schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { authenticator, httpErrors } = fastify;
+
+  fastify.route({
+    url: '/login',
+    method: 'POST',
+    config: {
+      auth: 'optional',
+    },
+    schema: {
+      ...loginSchema,
+      response: {
+        200: tokenSchema,
+      },
+    },
+    async handler(req) {
+      return authenticator.login(req.body.userId, req.body.password);
+    },
+  });
+
+  fastify.route({
+    url: '/me',
+    method: 'GET',
+    config: {
+      auth: 'required',
+    },
+    schema: {
+      response: {
+        200: userSchema,
+      },
+    },
+    async handler(req) {
+      if (req.viewer === null) {
+        throw httpErrors.unauthorized();
+      }
+      return req.viewer;
+    },
+  });
+};
+
+export default plugin;
@@ -0,0 +1,20 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { passwordSchema, userFields } from '../users/schemas.js';
+
+export const tokenSchema = Type.Object({
+  token: Type.String(),
+  tokenType: Type.Literal('Bearer'),
+  expiresIn: Type.Integer(),
+});
+
+export const loginSchema = {
+  body: Type.Object(
+    {
+      userId: userFields.id,
+      password: passwordSchema,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
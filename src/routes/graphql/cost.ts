@@ -0,0 +1,139 @@
+import {
+  ASTVisitor,
+  FieldNode,
+  GraphQLError,
+  GraphQLField,
+  GraphQLNamedType,
+  Kind,
+  SelectionSetNode,
+  ValidationContext,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  valueFromASTUntyped,
+} from 'graphql';
+
+export interface CostOptions {
+  maxCost: number;
+  // Assumed length of a list field when no `first`/`last`/`limit` argument bounds it.
+  defaultListSize: number;
+  variables?: Record<string, unknown>;
+}
+
+const listSizeArgs = ['first', 'last', 'limit'];
+
+// A field weighs `extensions.cost` if declared, otherwise 1 for objects and 0 for scalars.
+const getFieldWeight = (field: GraphQLField<unknown, unknown>) => {
+  const { cost } = field.extensions;
+  if (typeof cost === 'number') {
+    return cost;
+  }
+  return isCompositeType(getNamedType(field.type)) ? 1 : 0;
+};
+
+const getSizeArg = (node: FieldNode, { variables }: CostOptions) => {
+  const sizeArg = node.arguments?.find(({ name }) => listSizeArgs.includes(name.value));
+  const size = sizeArg && valueFromASTUntyped(sizeArg.value, variables);
+  // A negative size fails when resolved, but must not take cost off its siblings.
+  return typeof size === 'number' && size >= 0 ? size : undefined;
+};
+
+const getSelectionSetCost = (
+  context: ValidationContext,
+  parentType: GraphQLNamedType,
+  selectionSet: SelectionSetNode,
+  options: CostOptions,
+  inheritedListSize?: number,
+): number =>
+  selectionSet.selections.reduce((total, selection) => {
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        if (!isObjectType(parentType) && !isInterfaceType(parentType)) {
+          return total;
+        }
+        const field = parentType.getFields()[selection.name.value];
+        if (!field) {
+          return total;
+        }
+        const sizeArg = getSizeArg(selection, options);
+        const isList = isListType(getNullableType(field.type));
+        // Connections take the page size but return their list (`edges`) one level down.
+        const childCost = selection.selectionSet
+          ? getSelectionSetCost(
+              context,
+              getNamedType(field.type),
+              selection.selectionSet,
+              options,
+              isList ? undefined : sizeArg,
+            )
+          : 0;
+        const multiplier = isList
+          ? sizeArg ?? inheritedListSize ?? options.defaultListSize
+          : 1;
+        return total + multiplier * (getFieldWeight(field) + childCost);
+      }
+      case Kind.INLINE_FRAGMENT: {
+        const typeName = selection.typeCondition?.name.value;
+        const type = typeName ? context.getSchema().getType(typeName) : parentType;
+        return type
+          ? total +
+              getSelectionSetCost(
+                context,
+                type,
+                selection.selectionSet,
+                options,
+                inheritedListSize,
+              )
+          : total;
+      }
+      case Kind.FRAGMENT_SPREAD: {
+        const fragment = context.getFragment(selection.name.value);
+        const type =
+          fragment && context.getSchema().getType(fragment.typeCondition.name.value);
+        return fragment && type
+          ? total +
+              getSelectionSetCost(
+                context,
+                type,
+                fragment.selectionSet,
+                options,
+                inheritedListSize,
+              )
+          : total;
+      }
+    }
+  }, 0);
+
+/**
+ * Rejects operations whose estimated cost exceeds `maxCost`. Expects a document that
+ * already passed the specified rules, so fragments are known to be acyclic.
+ */
+export const createCostLimitRule =
+  (
+    options: CostOptions,
+    onCost?: (operationName: string | undefined, cost: number) => void,
+  ) =>
+  (context: ValidationContext): ASTVisitor => ({
+    OperationDefinition(node) {
+      const rootType = context.getSchema().getRootType(node.operation);
+      if (!rootType) {
+        return;
+      }
+      const cost = getSelectionSetCost(context, rootType, node.selectionSet, options);
+      onCost?.(node.name?.value, cost);
+      if (cost > options.maxCost) {
+        context.reportError(
+          new GraphQLError(
+            `Operation cost ${cost} exceeds maximum allowed cost of ${options.maxCost}.`,
+            {
+              nodes: [node],
+              extensions: { code: 'QUERY_TOO_COSTLY', cost, maxCost: options.maxCost },
+            },
+          ),
+        );
+      }
+    },
+  });
@@ -0,0 +1,30 @@
+import { GraphQLError } from 'graphql';
+import { HttpCompatibleError } from '../../plugins/handle-http-error.js';
+
+const codesByHttpStatus: Record<number, string> = {
+  400: 'BAD_USER_INPUT',
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  422: 'UNPROCESSABLE_ENTITY',
+  429: 'TOO_MANY_REQUESTS',
+};
+
+/** Gives errors thrown by shared services the same `extensions.code` their REST status implies. */
+export const withErrorCode = (error: GraphQLError): GraphQLError => {
+  const { originalError } = error;
+  if (!(originalError instanceof HttpCompatibleError) || error.extensions.code) {
+    return error;
+  }
+  return new GraphQLError(error.message, {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    originalError,
+    extensions: {
+      ...error.extensions,
+      code: codesByHttpStatus[originalError.httpCode] ?? 'INTERNAL_SERVER_ERROR',
+    },
+  });
+};
@@ -0,0 +1,146 @@
+import {
+  DocumentNode,
+  ExecutionResult,
+  GraphQLError,
+  OperationDefinitionNode,
+  OperationTypeNode,
+  ValidationRule,
+  execute,
+  getOperationAST,
+  parse,
+  specifiedRules,
+  validate,
+} from 'graphql';
+import depthLimit from 'graphql-depth-limit';
+import { gqlSchema } from './schema.js';
+import { createCostLimitRule } from './cost.js';
+import { withErrorCode } from './errors.js';
+import { requestContext } from '../../plugins/request-context.js';
+import { Context } from './types/context.js';
+import { PersistedQueries, PersistedQueryRequest } from './persisted-queries.js';
+
+export interface GqlRequest extends PersistedQueryRequest {
+  variables?: Record<string, unknown>;
+  operationName?: string;
+}
+
+export interface GqlOptions {
+  maxDepth: number;
+  maxCost: number;
+  defaultListSize: number;
+  persistedQueries: PersistedQueries;
+}
+
+export interface ValidatedGqlRequest {
+  request: GqlRequest;
+  document?: DocumentNode;
+  operation?: OperationDefinitionNode;
+  errors: readonly GraphQLError[];
+  extensions?: Record<string, unknown>;
+  /** Computed cost of the selected operation, known once the document is valid. */
+  cost?: number;
+}
+
+export const validateGqlRequest = (
+  request: GqlRequest,
+  { maxDepth, maxCost, defaultListSize, persistedQueries }: GqlOptions,
+): ValidatedGqlRequest => {
+  const { variables, operationName } = request;
+  let document: DocumentNode;
+  try {
+    document = parse(persistedQueries.resolve(request));
+  } catch (error) {
+    if (error instanceof GraphQLError) {
+      return { request, errors: [error] };
+    }
+    throw error;
+  }
+
+  const errors = validate(gqlSchema, document, [
+    ...specifiedRules,
+    depthLimit(maxDepth) as ValidationRule,
+  ]);
+  if (errors.length > 0) {
+    return { request, errors };
+  }
+
+  // Costs are only meaningful for documents that are otherwise valid, hence the second pass.
+  const costs = new Map<string | undefined, number>();
+  const costErrors = validate(gqlSchema, document, [
+    createCostLimitRule({ maxCost, defaultListSize, variables }, (name, cost) =>
+      costs.set(name, cost),
+    ),
+  ]);
+  const operation = getOperationAST(document, operationName) ?? undefined;
+  const cost = costs.get(operation?.name?.value);
+  const extensions = { cost: { requested: cost, maximum: maxCost } };
+  if (costErrors.length > 0) {
+    return { request, errors: costErrors, extensions, cost };
+  }
+  return { request, document, operation, errors: [], extensions, cost };
+};
+
+export const executeValidatedGqlRequest = async (
+  { request, document, operation, errors, extensions }: ValidatedGqlRequest,
+  contextValue: Context,
+): Promise<ExecutionResult> => {
+  if (!document || errors.length > 0) {
+    return { errors, extensions };
+  }
+
+  const run = () =>
+    execute({
+      schema: gqlSchema,
+      document,
+      variableValues: request.variables,
+      operationName: request.operationName,
+      contextValue,
+    });
+  // Operations of a batch share the request, so each one names itself as the audit source.
+  const context = requestContext.getStore();
+  const name = operation?.name?.value ?? '(anonymous)';
+  const source = `GraphQL ${operation?.operation ?? 'query'} ${name}`;
+  const result = await (context
+    ? requestContext.run({ ...context, source }, run)
+    : run());
+  return {
+    ...result,
+    ...(result.errors && { errors: result.errors.map(withErrorCode) }),
+    extensions: { ...result.extensions, ...extensions },
+  };
+};
+
+export const executeGqlRequest = async (
+  request: GqlRequest,
+  contextValue: Context,
+  options: GqlOptions,
+): Promise<ExecutionResult> =>
+  executeValidatedGqlRequest(validateGqlRequest(request, options), contextValue);
+
+/**
+ * Executes a batch of operations. Queries share one context and run
+ * concurrently, so the loaders deduplicate lookups across the whole batch. A
+ * batch containing a mutation runs in order instead, because later operations
+ * may depend on the writes of earlier ones; each operation then gets a context
+ * of its own, so none reads rows cached before a write.
+ */
+export const executeGqlBatch = async (
+  validated: ValidatedGqlRequest[],
+  createContext: () => Context,
+): Promise<ExecutionResult[]> => {
+  const hasMutation = validated.some(
+    ({ operation }) => operation?.operation === OperationTypeNode.MUTATION,
+  );
+  if (!hasMutation) {
+    const contextValue = createContext();
+    return Promise.all(
+      validated.map((request) => executeValidatedGqlRequest(request, contextValue)),
+    );
+  }
+
+  const results: ExecutionResult[] = [];
+  for (const request of validated) {
+    results.push(await executeValidatedGqlRequest(request, createContext()));
+  }
+  return results;
+};
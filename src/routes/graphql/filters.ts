@@ -0,0 +1,86 @@
+import { GraphQLError } from 'graphql';
+
+export const filterOperators = {
+  uuid: ['equals', 'in'],
+  string: ['equals', 'contains', 'startsWith', 'endsWith'],
+  float: ['equals', 'gt', 'gte', 'lt', 'lte'],
+  int: ['equals', 'gt', 'gte', 'lt', 'lte'],
+  dateTime: ['equals', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['equals'],
+  memberTypeId: ['equals', 'in'],
+} as const;
+
+export type FilterKind = keyof typeof filterOperators;
+export type FilterFields = Record<string, FilterKind>;
+
+// Allowlists of the columns clients may filter and sort by; the input types are built from them.
+export const userFilterFields = {
+  id: 'uuid',
+  name: 'string',
+  balance: 'float',
+} satisfies FilterFields;
+
+export const postFilterFields = {
+  id: 'uuid',
+  title: 'string',
+  content: 'string',
+  authorId: 'uuid',
+  createdAt: 'dateTime',
+} satisfies FilterFields;
+
+export const profileFilterFields = {
+  id: 'uuid',
+  isMale: 'boolean',
+  yearOfBirth: 'int',
+  userId: 'uuid',
+  memberTypeId: 'memberTypeId',
+} satisfies FilterFields;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface FilterArgs {
+  where?: Record<string, Record<string, unknown> | null> | null;
+  orderBy?: Record<string, SortOrder | null>[] | null;
+}
+
+const assertAllowedField = (fields: FilterFields, field: string, action: string) => {
+  if (!Object.hasOwn(fields, field)) {
+    throw new GraphQLError(`${action} by "${field}" is not allowed.`);
+  }
+  return fields[field];
+};
+
+export const toPrismaWhere = <T>(
+  where: FilterArgs['where'],
+  fields: FilterFields,
+): T | undefined => {
+  if (!where) {
+    return undefined;
+  }
+  const conditions = Object.entries(where).flatMap(([field, filter]) => {
+    const kind = assertAllowedField(fields, field, 'Filtering');
+    if (!filter) {
+      return [];
+    }
+    const operators: readonly string[] = filterOperators[kind];
+    const condition = Object.entries(filter).filter(([operator, value]) => {
+      if (!operators.includes(operator)) {
+        throw new GraphQLError(`Operator "${operator}" is not allowed on "${field}".`);
+      }
+      return value !== null && value !== undefined;
+    });
+    return [[field, Object.fromEntries(condition)]];
+  });
+  return Object.fromEntries(conditions) as T;
+};
+
+export const toPrismaOrderBy = <T>(
+  orderBy: FilterArgs['orderBy'],
+  fields: FilterFields,
+): T[] =>
+  (orderBy ?? []).flatMap((order) =>
+    Object.entries(order).flatMap(([field, direction]) => {
+      assertAllowedField(fields, field, 'Sorting');
+      return direction ? [{ [field]: direction } as T] : [];
+    }),
+  );
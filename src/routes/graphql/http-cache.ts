@@ -0,0 +1,46 @@
+import { createHash } from 'node:crypto';
+import {
+  BREAK,
+  DocumentNode,
+  GraphQLSchema,
+  TypeInfo,
+  visit,
+  visitWithTypeInfo,
+} from 'graphql';
+
+export const createETag = (body: string) =>
+  `"${createHash('sha256').update(body).digest('base64url')}"`;
+
+// Weak comparison as required for If-None-Match (RFC 9110, section 13.1.2).
+export const matchesETag = (ifNoneMatch: string | undefined, etag: string) => {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const candidates = ifNoneMatch.split(',').map((tag) => tag.trim().replace(/^W\//, ''));
+  return candidates.includes('*') || candidates.includes(etag);
+};
+
+/**
+ * Whether an operation reads a field marked with `extensions.viewerScoped`, whose
+ * answer depends on the caller and so must stay out of shared caches.
+ */
+export const readsViewerScopedFields = (
+  schema: GraphQLSchema,
+  document: DocumentNode,
+) => {
+  const typeInfo = new TypeInfo(schema);
+  let found = false;
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field() {
+        if (typeInfo.getFieldDef()?.extensions.viewerScoped === true) {
+          found = true;
+          return BREAK;
+        }
+        return undefined;
+      },
+    }),
+  );
+  return found;
+};
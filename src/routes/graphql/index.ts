@@ -1,20 +1,251 @@
-import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
-import { createGqlResponseSchema, gqlResponseSchema } from './schemas.js';
-import { graphql } from 'graphql';
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ExecutionResult, GraphQLError, OperationTypeNode } from 'graphql';
+import { makeHandler } from 'graphql-ws/lib/use/@fastify/websocket';
+import {
+  createGqlResponseSchema,
+  getGqlQuerySchema,
+  gqlBatchResponseSchema,
+  gqlResponseSchema,
+} from './schemas.js';
+import { Context } from './types/context.js';
+import { createLoaders } from './loaders.js';
+import {
+  GqlOptions,
+  GqlRequest,
+  ValidatedGqlRequest,
+  executeGqlBatch,
+  executeValidatedGqlRequest,
+  validateGqlRequest,
+} from './execute.js';
+import { PersistedQueries } from './persisted-queries.js';
+import { createETag, matchesETag, readsViewerScopedFields } from './http-cache.js';
+import { gqlSchema } from './schema.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const {
+    prisma,
+    pubsub,
+    postQuota,
+    ledger,
+    authenticator,
+    policy,
+    softDelete,
+    search,
+    feed,
+    recommendations,
+    socialGraph,
+    nPlusOne,
+    rateLimiter,
+    config,
+    httpErrors,
+  } = fastify;
+
+  const options: GqlOptions = {
+    maxDepth: config.GQL_MAX_DEPTH,
+    maxCost: config.GQL_MAX_COST,
+    defaultListSize: config.GQL_DEFAULT_LIST_SIZE,
+    persistedQueries: await PersistedQueries.create({
+      cacheSize: config.GQL_PERSISTED_QUERIES_CACHE_SIZE,
+      allowlistOnly: config.GQL_ALLOWLIST_ONLY,
+      allowlistPath: config.GQL_ALLOWLIST_PATH,
+    }),
+  };
+
+  const createContext = (
+    req: FastifyRequest,
+    loaderOptions?: { cache?: boolean },
+  ): Context => ({
+    prisma,
+    pubsub,
+    postQuota,
+    ledger,
+    authenticator,
+    policy,
+    softDelete,
+    search,
+    feed,
+    recommendations,
+    socialGraph,
+    nPlusOne,
+    viewer: req.viewer,
+    loaders: createLoaders(prisma, loaderOptions),
+  });
+
+  const withNPlusOne = (
+    req: FastifyRequest,
+    result: ExecutionResult,
+  ): ExecutionResult => {
+    const detections = nPlusOne.getDetections(String(req.id));
+    if (!config.N_PLUS_ONE_EXPOSE || detections.length === 0) {
+      return result;
+    }
+    return { ...result, extensions: { ...result.extensions, nPlusOne: detections } };
+  };
+
+  // Invalid operations never run, so they cost as much as a REST request.
+  const getCost = (validated: ValidatedGqlRequest[]) =>
+    validated.reduce(
+      (total, { document, cost }) =>
+        total +
+        (document && cost !== undefined
+          ? Math.max(cost, 1)
+          : config.RATE_LIMIT_REST_COST),
+      0,
+    );
+
+  const charge = (
+    req: FastifyRequest,
+    reply: FastifyReply,
+    validated: ValidatedGqlRequest[],
+  ) => rateLimiter.charge(req, reply, getCost(validated));
+
+  const parseJsonParam = <T>(name: string, value?: string): T | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+        return parsed as T;
+      }
+    } catch {
+      // Reported below together with non-object values.
+    }
+    throw httpErrors.badRequest(`Query parameter "${name}" must be a JSON object.`);
+  };
+
   fastify.route({
     url: '/',
     method: 'POST',
     schema: {
       ...createGqlResponseSchema,
+      response: {
+        200: Type.Union([gqlResponseSchema, gqlBatchResponseSchema]),
+      },
+    },
+    config: {
+      rateLimitCost: 0,
+    },
+    async handler(req, reply) {
+      if (!Array.isArray(req.body)) {
+        const validated = validateGqlRequest(req.body, options);
+        await charge(req, reply, [validated]);
+        const result = await executeValidatedGqlRequest(validated, createContext(req));
+        return withNPlusOne(req, result);
+      }
+      if (req.body.length > config.GQL_MAX_BATCH_SIZE) {
+        throw httpErrors.payloadTooLarge(
+          `Batch of ${req.body.length} operations exceeds the maximum of ${config.GQL_MAX_BATCH_SIZE}.`,
+        );
+      }
+      const validated = req.body.map((request) => validateGqlRequest(request, options));
+      await charge(req, reply, validated);
+      const results = await executeGqlBatch(validated, () => createContext(req));
+      return results.map((result) => withNPlusOne(req, result));
+    },
+  });
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getGqlQuerySchema,
       response: {
         200: gqlResponseSchema,
       },
     },
-    async handler(req) {
-      return {};
+    config: {
+      rateLimitCost: 0,
+    },
+    async handler(req, reply) {
+      void reply.header('vary', 'Authorization');
+      const { query, variables, operationName, extensions } = req.query;
+      const validated = validateGqlRequest(
+        {
+          query,
+          operationName,
+          variables: parseJsonParam<GqlRequest['variables']>('variables', variables),
+          extensions: parseJsonParam<GqlRequest['extensions']>('extensions', extensions),
+        },
+        options,
+      );
+
+      const operationType = validated.operation?.operation;
+      if (operationType && operationType !== OperationTypeNode.QUERY) {
+        void reply.header('allow', 'POST');
+        throw httpErrors.methodNotAllowed(
+          `Can only perform a ${operationType} operation from a POST request.`,
+        );
+      }
+      await charge(req, reply, [validated]);
+
+      const result = withNPlusOne(
+        req,
+        await executeValidatedGqlRequest(validated, createContext(req)),
+      );
+      if (result.errors) {
+        void reply.header('cache-control', 'no-store');
+        return result;
+      }
+      // What a viewer sees may differ from what anyone else would, see `viewerScoped`.
+      if (
+        req.viewer !== null ||
+        (validated.document && readsViewerScopedFields(gqlSchema, validated.document))
+      ) {
+        void reply.header('cache-control', 'private, no-store');
+        return result;
+      }
+
+      const etag = createETag(JSON.stringify(result));
+      void reply
+        .header('etag', etag)
+        .header('cache-control', `public, max-age=${config.GQL_GET_MAX_AGE}`);
+      if (matchesETag(req.headers['if-none-match'], etag)) {
+        return reply.code(304).send();
+      }
+      return result;
     },
+    wsHandler: makeHandler({
+      schema: gqlSchema,
+      async onSubscribe({ extra }, { payload }) {
+        const variables = payload.variables ?? undefined;
+        const operationName = payload.operationName ?? undefined;
+        const validated = validateGqlRequest(
+          { query: payload.query, variables, operationName },
+          options,
+        );
+        const { document, errors } = validated;
+        if (!document || errors.length > 0) {
+          return errors;
+        }
+
+        // There is no reply to carry headers over a socket, so a rejection is a GraphQL error.
+        if (rateLimiter.enabled) {
+          const { allowed, retryAfter } = await rateLimiter.consume(
+            rateLimiter.keyFor(extra.request),
+            getCost([validated]),
+          );
+          if (!allowed) {
+            return [
+              new GraphQLError(`Rate limit exceeded; retry in ${retryAfter} seconds.`, {
+                extensions: { code: 'TOO_MANY_REQUESTS' },
+              }),
+            ];
+          }
+        }
+
+        // A subscription lives for many events, so its loaders must not cache rows.
+        const contextValue = createContext(extra.request, { cache: false });
+        return {
+          schema: gqlSchema,
+          document,
+          variableValues: variables,
+          operationName,
+          contextValue,
+        };
+      },
+    }),
   });
 };
 
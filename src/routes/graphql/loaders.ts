@@ -0,0 +1,265 @@
+import DataLoader from 'dataloader';
+import {
+  MemberType,
+  Post,
+  PrismaClient,
+  Profile,
+  SubscribersOnAuthors,
+  Transaction,
+  User,
+} from '@prisma/client';
+import { AuditEntry, parseAuditLog, withSoftDeleted } from '../../plugins/db.js';
+import { getMonthBounds } from '../../plugins/post-quota.js';
+
+const groupBy = <T>(
+  keys: readonly string[],
+  items: T[],
+  getKey: (item: T) => string,
+): T[][] => {
+  const groups = new Map<string, T[]>(keys.map((key) => [key, []]));
+  items.forEach((item) => groups.get(getKey(item))?.push(item));
+  return keys.map((key) => groups.get(key) ?? []);
+};
+
+const indexBy = <T>(
+  keys: readonly string[],
+  items: T[],
+  getKey: (item: T) => string,
+): (T | null)[] => {
+  const index = new Map(items.map((item) => [getKey(item), item]));
+  return keys.map((key) => index.get(key) ?? null);
+};
+
+// Every loader issues exactly one findMany per batch, however many parents asked for it.
+export const createLoaders = (prisma: PrismaClient, { cache = true } = {}) => ({
+  postsByAuthorId: new DataLoader<string, Post[]>(
+    async (authorIds) => {
+      const posts = await prisma.post.findMany({
+        where: { authorId: { in: [...authorIds] } },
+      });
+      return groupBy(authorIds, posts, ({ authorId }) => authorId);
+    },
+    { cache },
+  ),
+
+  profileByUserId: new DataLoader<string, Profile | null>(
+    async (userIds) => {
+      const profiles = await prisma.profile.findMany({
+        where: { userId: { in: [...userIds] } },
+      });
+      return indexBy(userIds, profiles, ({ userId }) => userId);
+    },
+    { cache },
+  ),
+
+  memberTypeById: new DataLoader<string, MemberType | null>(
+    async (ids) => {
+      const memberTypes = await prisma.memberType.findMany({
+        where: { id: { in: [...ids] } },
+      });
+      return indexBy(ids, memberTypes, ({ id }) => id);
+    },
+    { cache },
+  ),
+
+  userSubscribedTo: new DataLoader<string, User[]>(
+    async (subscriberIds) => {
+      const subscriptions = await prisma.subscribersOnAuthors.findMany({
+        where: { subscriberId: { in: [...subscriberIds] } },
+        include: { author: true },
+      });
+      return groupBy(
+        subscriberIds,
+        subscriptions,
+        ({ subscriberId }) => subscriberId,
+      ).map((group) => group.map(({ author }) => author));
+    },
+    { cache },
+  ),
+
+  subscribedToUser: new DataLoader<string, User[]>(
+    async (authorIds) => {
+      const subscriptions = await prisma.subscribersOnAuthors.findMany({
+        where: { authorId: { in: [...authorIds] } },
+        include: { subscriber: true },
+      });
+      return groupBy(authorIds, subscriptions, ({ authorId }) => authorId).map((group) =>
+        group.map(({ subscriber }) => subscriber),
+      );
+    },
+    { cache },
+  ),
+
+  followersCount: new DataLoader<string, number>(
+    async (authorIds) => {
+      const counts = await prisma.subscribersOnAuthors.groupBy({
+        by: ['authorId'],
+        where: { authorId: { in: [...authorIds] } },
+        _count: { _all: true },
+      });
+      const countsById = new Map(
+        counts.map(({ authorId, _count }) => [authorId, _count._all]),
+      );
+      return authorIds.map((authorId) => countsById.get(authorId) ?? 0);
+    },
+    { cache },
+  ),
+
+  followingCount: new DataLoader<string, number>(
+    async (subscriberIds) => {
+      const counts = await prisma.subscribersOnAuthors.groupBy({
+        by: ['subscriberId'],
+        where: { subscriberId: { in: [...subscriberIds] } },
+        _count: { _all: true },
+      });
+      const countsById = new Map(
+        counts.map(({ subscriberId, _count }) => [subscriberId, _count._all]),
+      );
+      return subscriberIds.map((subscriberId) => countsById.get(subscriberId) ?? 0);
+    },
+    { cache },
+  ),
+
+  transactionsByUserId: new DataLoader<string, Transaction[]>(
+    async (userIds) => {
+      const transactions = await prisma.transaction.findMany({
+        where: {
+          OR: [{ senderId: { in: [...userIds] } }, { recipientId: { in: [...userIds] } }],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+      // A transfer shows up in the history of both its sender and its recipient.
+      const groups = new Map(userIds.map((userId) => [userId, [] as Transaction[]]));
+      transactions.forEach((transaction) => {
+        groups.get(transaction.senderId ?? '')?.push(transaction);
+        groups.get(transaction.recipientId ?? '')?.push(transaction);
+      });
+      return userIds.map((userId) => groups.get(userId) ?? []);
+    },
+    { cache },
+  ),
+
+  // Keyed by `${authorId}:${start of the month}`; deleted posts count too, like
+  // they do against the quota.
+  postCountByAuthorMonth: new DataLoader<string, number>(
+    async (keys) => {
+      const authorIdsByMonth = new Map<string, string[]>();
+      keys.forEach((key) => {
+        const separator = key.indexOf(':');
+        const month = key.slice(separator + 1);
+        const authorIds = authorIdsByMonth.get(month) ?? [];
+        authorIdsByMonth.set(month, [...authorIds, key.slice(0, separator)]);
+      });
+      const counts = new Map<string, number>();
+      for (const [month, authorIds] of authorIdsByMonth) {
+        const { start, end } = getMonthBounds(new Date(month));
+        const groups = await withSoftDeleted(() =>
+          prisma.post.groupBy({
+            by: ['authorId'],
+            where: { authorId: { in: authorIds }, createdAt: { gte: start, lt: end } },
+            _count: { _all: true },
+          }),
+        );
+        groups.forEach(({ authorId, _count }) =>
+          counts.set(`${authorId}:${month}`, _count._all),
+        );
+      }
+      return keys.map((key) => counts.get(key) ?? 0);
+    },
+    { cache },
+  ),
+
+  // Sums of the amounts each user received and sent.
+  transactionSumsByUserId: new DataLoader<string, { received: number; sent: number }>(
+    async (userIds) => {
+      const [received, sent] = await Promise.all([
+        prisma.transaction.groupBy({
+          by: ['recipientId'],
+          where: { recipientId: { in: [...userIds] } },
+          _sum: { amount: true },
+        }),
+        prisma.transaction.groupBy({
+          by: ['senderId'],
+          where: { senderId: { in: [...userIds] } },
+          _sum: { amount: true },
+        }),
+      ]);
+      const receivedById = new Map(
+        received.map(({ recipientId, _sum }) => [recipientId, _sum.amount ?? 0]),
+      );
+      const sentById = new Map(
+        sent.map(({ senderId, _sum }) => [senderId, _sum.amount ?? 0]),
+      );
+      return userIds.map((userId) => ({
+        received: receivedById.get(userId) ?? 0,
+        sent: sentById.get(userId) ?? 0,
+      }));
+    },
+    { cache },
+  ),
+
+  // Keyed by `${entity}:${entityId}`, newest entries first.
+  auditLogByEntity: new DataLoader<string, AuditEntry[]>(
+    async (keys) => {
+      const logs = await prisma.auditLog.findMany({
+        where: {
+          OR: keys.map((key) => {
+            const separator = key.indexOf(':');
+            return {
+              entity: key.slice(0, separator),
+              entityId: key.slice(separator + 1),
+            };
+          }),
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      });
+      return groupBy(keys, logs, ({ entity, entityId }) => `${entity}:${entityId}`).map(
+        (group) => group.map(parseAuditLog),
+      );
+    },
+    { cache },
+  ),
+});
+
+export type Loaders = ReturnType<typeof createLoaders>;
+
+export type RelationPrimers<TRow> = Record<
+  string,
+  (rows: TRow[], loaders: Loaders) => void
+>;
+
+export type UserWithSubscriptions = User & {
+  userSubscribedTo?: SubscribersOnAuthors[];
+  subscribedToUser?: SubscribersOnAuthors[];
+};
+
+// A key is primed only when every related user is part of the fetched rows,
+// otherwise the loader falls back to its own batch query.
+const primeSubscriptions = (
+  loader: DataLoader<string, User[]>,
+  users: UserWithSubscriptions[],
+  getRelatedIds: (user: UserWithSubscriptions) => string[] | undefined,
+) => {
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  users.forEach((user) => {
+    const related = getRelatedIds(user)?.map((id) => usersById.get(id));
+    if (related?.every((relatedUser): relatedUser is User => relatedUser !== undefined)) {
+      loader.clear(user.id).prime(user.id, related);
+    }
+  });
+};
+
+export const userRelationPrimers: RelationPrimers<UserWithSubscriptions> = {
+  userSubscribedTo: (users, loaders) =>
+    primeSubscriptions(
+      loaders.userSubscribedTo,
+      users,
+      ({ userSubscribedTo }) => userSubscribedTo?.map(({ authorId }) => authorId),
+    ),
+  subscribedToUser: (users, loaders) =>
+    primeSubscriptions(
+      loaders.subscribedToUser,
+      users,
+      ({ subscribedToUser }) => subscribedToUser?.map(({ subscriberId }) => subscriberId),
+    ),
+};
@@ -0,0 +1,75 @@
+import {
+  GraphQLNamedType,
+  GraphQLResolveInfo,
+  getNamedType,
+  isInterfaceType,
+  isObjectType,
+} from 'graphql';
+import {
+  ResolveTree,
+  parseResolveInfo,
+  simplifyParsedResolveInfoFragmentWithType,
+} from 'graphql-parse-resolve-info';
+import { Loaders, RelationPrimers } from './loaders.js';
+
+const getFields = (tree: ResolveTree, type: GraphQLNamedType) =>
+  Object.values(
+    simplifyParsedResolveInfoFragmentWithType(tree, type).fields as Record<
+      string,
+      ResolveTree
+    >,
+  );
+
+/**
+ * Names of the fields selected on the returned type, or on a type nested below it
+ * when `path` is given (e.g. `['edges', 'node']` for connections).
+ */
+export const getSelectedFieldNames = (
+  info: GraphQLResolveInfo,
+  path: string[] = [],
+): Set<string> => {
+  const resolveTree = parseResolveInfo(info) as ResolveTree | null;
+  if (!resolveTree) {
+    return new Set();
+  }
+
+  let type = getNamedType(info.returnType);
+  let fields = getFields(resolveTree, type);
+  for (const name of path) {
+    const field =
+      isObjectType(type) || isInterfaceType(type) ? type.getFields()[name] : undefined;
+    if (!field) {
+      return new Set();
+    }
+    const nestedType = getNamedType(field.type);
+    fields = fields
+      .filter((tree) => tree.name === name)
+      .flatMap((tree) => getFields(tree, nestedType));
+    type = nestedType;
+  }
+  return new Set(fields.map(({ name }) => name));
+};
+
+/**
+ * Joins the relations the client selected into the list query itself and primes
+ * their loaders from the result, so nested resolvers don't hit the database again.
+ */
+export const findManyWithLookahead = async <TRow>(
+  info: GraphQLResolveInfo,
+  loaders: Loaders,
+  primers: RelationPrimers<TRow>,
+  findMany: (include?: Record<string, true>) => Promise<TRow[]>,
+  path?: string[],
+): Promise<TRow[]> => {
+  const selected = getSelectedFieldNames(info, path);
+  const relations = Object.keys(primers).filter((relation) => selected.has(relation));
+  if (relations.length === 0) {
+    return findMany();
+  }
+
+  const rows = await findMany(
+    Object.fromEntries(relations.map((relation) => [relation, true])),
+  );
+  relations.forEach((relation) => primers[relation](rows, loaders));
+  return rows;
+};
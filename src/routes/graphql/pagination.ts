@@ -0,0 +1,143 @@
+import { GraphQLError } from 'graphql';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: string | null;
+  last?: number | null;
+  before?: string | null;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  edges: { cursor: string; node: T }[];
+  pageInfo: PageInfo;
+  // A function is called by the default field resolver, so counting only runs when selected.
+  totalCount: number | (() => Promise<number>);
+}
+
+export interface PageQuery<TOrderBy> {
+  orderBy: TOrderBy[];
+  take: number;
+  cursor?: { id: string };
+  skip?: number;
+}
+
+const cursorPrefix = 'cursor:';
+
+export const encodeCursor = (id: string) =>
+  Buffer.from(`${cursorPrefix}${id}`).toString('base64url');
+
+export const decodeCursor = (cursor: string) => {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  if (!decoded.startsWith(cursorPrefix)) {
+    throw new GraphQLError(`Invalid cursor: ${cursor}.`);
+  }
+  return decoded.slice(cursorPrefix.length);
+};
+
+const parseArgs = ({ first, after, last, before }: ConnectionArgs) => {
+  const backward = last != null || before != null;
+  if (backward && (first != null || after != null)) {
+    throw new GraphQLError(
+      'Paginate either forward with "first"/"after" or backward with "last"/"before".',
+    );
+  }
+  const size = (backward ? last : first) ?? DEFAULT_PAGE_SIZE;
+  if (size < 0 || size > MAX_PAGE_SIZE) {
+    throw new GraphQLError(
+      `"${backward ? 'last' : 'first'}" must be between 0 and ${MAX_PAGE_SIZE}.`,
+    );
+  }
+  const cursor = backward ? before : after;
+  return { backward, size, cursorId: cursor == null ? undefined : decodeCursor(cursor) };
+};
+
+const toConnection = <T extends { id: string }>(
+  nodes: T[],
+  hasNextPage: boolean,
+  hasPreviousPage: boolean,
+  totalCount: Connection<T>['totalCount'],
+): Connection<T> => {
+  const edges = nodes.map((node) => ({ cursor: encodeCursor(node.id), node }));
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage,
+      hasPreviousPage,
+      startCursor: edges.at(0)?.cursor ?? null,
+      endCursor: edges.at(-1)?.cursor ?? null,
+    },
+    totalCount,
+  };
+};
+
+/**
+ * Pages through a table with Prisma cursors, ordered by `orderBy` and then by id so
+ * that the order is stable. One extra row is fetched to find out whether there is
+ * another page in the paging direction.
+ */
+export const findManyConnection = async <T extends { id: string }, TOrderBy = object>(
+  args: ConnectionArgs,
+  findMany: (query: PageQuery<TOrderBy>) => Promise<T[]>,
+  count: () => Promise<number>,
+  orderBy: TOrderBy[] = [],
+): Promise<Connection<T>> => {
+  const { backward, size, cursorId } = parseArgs(args);
+  const rows = await findMany({
+    orderBy: [...orderBy, { id: 'asc' } as TOrderBy],
+    take: backward ? -(size + 1) : size + 1,
+    ...(cursorId !== undefined && { cursor: { id: cursorId }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > size;
+  if (backward) {
+    const nodes = hasMore ? rows.slice(1) : rows;
+    return toConnection(nodes, cursorId !== undefined, hasMore, count);
+  }
+  return toConnection(rows.slice(0, size), hasMore, cursorId !== undefined, count);
+};
+
+// Same contract as findManyConnection for lists that were already batch-loaded.
+export const paginate = <T extends { id: string }>(
+  items: T[],
+  args: ConnectionArgs,
+): Connection<T> => {
+  const { backward, size, cursorId } = parseArgs(args);
+  const sorted = [...items].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  let index = backward ? sorted.length : -1;
+  if (cursorId !== undefined) {
+    index = sorted.findIndex(({ id }) => id === cursorId);
+    if (index < 0) {
+      throw new GraphQLError(
+        `Cursor ${encodeCursor(cursorId)} is not part of this list.`,
+      );
+    }
+  }
+
+  if (backward) {
+    const start = Math.max(index - size, 0);
+    return toConnection(
+      sorted.slice(start, index),
+      index < sorted.length,
+      start > 0,
+      sorted.length,
+    );
+  }
+  const end = index + 1 + size;
+  return toConnection(
+    sorted.slice(index + 1, end),
+    end < sorted.length,
+    index >= 0,
+    sorted.length,
+  );
+};
@@ -0,0 +1,124 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { GraphQLError } from 'graphql';
+
+export interface PersistedQueryExtension {
+  version: number;
+  sha256Hash: string;
+}
+
+export interface PersistedQueryRequest {
+  query?: string;
+  extensions?: {
+    persistedQuery?: PersistedQueryExtension;
+  };
+}
+
+export interface PersistedQueriesOptions {
+  cacheSize: number;
+  allowlistOnly: boolean;
+  allowlistPath?: string;
+}
+
+const hashQuery = (query: string) => createHash('sha256').update(query).digest('hex');
+
+const persistedQueryError = (message: string, code: string) =>
+  new GraphQLError(message, { extensions: { code } });
+
+/**
+ * Automatic persisted queries (Apollo protocol, version 1) plus an optional allowlist.
+ * In allowlist mode only documents from the registry file may run, and clients can't
+ * register new ones.
+ */
+export class PersistedQueries {
+  private cache = new Map<string, string>();
+
+  private constructor(
+    private cacheSize: number,
+    private allowlist?: Map<string, string>,
+  ) {}
+
+  static async create({
+    cacheSize,
+    allowlistOnly,
+    allowlistPath,
+  }: PersistedQueriesOptions) {
+    if (!allowlistOnly) {
+      return new PersistedQueries(cacheSize);
+    }
+    if (!allowlistPath) {
+      throw new Error('GQL_ALLOWLIST_PATH is required when GQL_ALLOWLIST_ONLY is set.');
+    }
+
+    // The registry maps sha256 hashes to documents: { "<hash>": "query { ... }" }.
+    const registry = JSON.parse(await readFile(allowlistPath, 'utf8')) as Record<
+      string,
+      string
+    >;
+    const allowlist = new Map<string, string>();
+    Object.entries(registry).forEach(([hash, query]) => {
+      if (hashQuery(query) !== hash) {
+        throw new Error(
+          `Allowlist entry ${hash} doesn't match the hash of its document.`,
+        );
+      }
+      allowlist.set(hash, query);
+    });
+    return new PersistedQueries(cacheSize, allowlist);
+  }
+
+  resolve({ query, extensions }: PersistedQueryRequest): string {
+    const persistedQuery = extensions?.persistedQuery;
+    if (!persistedQuery) {
+      if (query === undefined) {
+        throw persistedQueryError('Must provide query string.', 'BAD_USER_INPUT');
+      }
+      if (this.allowlist && !this.allowlist.has(hashQuery(query))) {
+        throw persistedQueryError(
+          'PersistedQueryNotInList',
+          'PERSISTED_QUERY_NOT_IN_LIST',
+        );
+      }
+      return query;
+    }
+
+    if (persistedQuery.version !== 1) {
+      throw persistedQueryError(
+        'PersistedQueryNotSupported',
+        'PERSISTED_QUERY_NOT_SUPPORTED',
+      );
+    }
+    const { sha256Hash } = persistedQuery;
+
+    if (this.allowlist) {
+      const registered = this.allowlist.get(sha256Hash);
+      if (registered === undefined) {
+        throw persistedQueryError(
+          'PersistedQueryNotInList',
+          'PERSISTED_QUERY_NOT_IN_LIST',
+        );
+      }
+      return registered;
+    }
+
+    if (query === undefined) {
+      const cached = this.cache.get(sha256Hash);
+      if (cached === undefined) {
+        throw persistedQueryError('PersistedQueryNotFound', 'PERSISTED_QUERY_NOT_FOUND');
+      }
+      // Re-inserting keeps the map ordered from least to most recently used.
+      this.cache.delete(sha256Hash);
+      this.cache.set(sha256Hash, cached);
+      return cached;
+    }
+
+    if (hashQuery(query) !== sha256Hash) {
+      throw persistedQueryError('provided sha does not match query', 'BAD_USER_INPUT');
+    }
+    this.cache.set(sha256Hash, query);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return query;
+  }
+}
@@ -0,0 +1,48 @@
+import { GraphQLObjectType, GraphQLSchema, ResponsePath } from 'graphql';
+import { requestContext } from '../../plugins/request-context.js';
+import { Context } from './types/context.js';
+
+const toPathString = (path: ResponsePath | undefined): string => {
+  const keys: string[] = [];
+  for (let current = path; current; current = current.prev) {
+    if (typeof current.key === 'string') {
+      keys.unshift(current.key);
+    }
+  }
+  return keys.join('.');
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+
+/**
+ * Wraps every custom resolver of a schema under construction. While the N+1
+ * detector is on, the resolver runs inside a request context that carries its
+ * GraphQL path, so database reads can be traced back to the field that issued
+ * them. Loader batches inherit the path of the first field that asked for them.
+ */
+export const trackResolverPaths = (schema: GraphQLSchema) => {
+  Object.values(schema.getTypeMap()).forEach((type) => {
+    if (!(type instanceof GraphQLObjectType) || type.name.startsWith('__')) {
+      return;
+    }
+    Object.values(type.getFields()).forEach((field) => {
+      const { resolve } = field;
+      if (!resolve) {
+        return;
+      }
+      field.resolve = (source, args, contextValue: Context, info) => {
+        const store = requestContext.getStore();
+        if (!store || !contextValue.nPlusOne.enabled) {
+          return resolve(source, args, contextValue, info);
+        }
+        return requestContext.run({ ...store, path: toPathString(info.path) }, () => {
+          const result: unknown = resolve(source, args, contextValue, info);
+          // Prisma starts a query only once it is awaited, so that must happen in here.
+          return isPromiseLike(result) ? result.then((value) => value) : result;
+        });
+      };
+    });
+  });
+  return schema;
+};
@@ -0,0 +1,13 @@
+import { GraphQLSchema } from 'graphql';
+import { QueryType } from './types/query.js';
+import { MutationType } from './types/mutation.js';
+import { SubscriptionType } from './types/subscription.js';
+import { trackResolverPaths } from './resolver-paths.js';
+
+export const gqlSchema = trackResolverPaths(
+  new GraphQLSchema({
+    query: QueryType,
+    mutation: MutationType,
+    subscription: SubscriptionType,
+  }),
+);
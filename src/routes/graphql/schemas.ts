@@ -4,14 +4,44 @@ export const gqlResponseSchema = Type.Partial(
   Type.Object({
     data: Type.Any(),
     errors: Type.Any(),
+    extensions: Type.Any(),
   }),
 );
 
+export const gqlBatchResponseSchema = Type.Array(gqlResponseSchema);
+
+export const gqlRequestSchema = Type.Object(
+  {
+    query: Type.Optional(Type.String()),
+    variables: Type.Optional(Type.Record(Type.String(), Type.Any())),
+    operationName: Type.Optional(Type.String()),
+    extensions: Type.Optional(
+      Type.Object({
+        persistedQuery: Type.Optional(
+          Type.Object({
+            version: Type.Integer(),
+            sha256Hash: Type.String(),
+          }),
+        ),
+      }),
+    ),
+  },
+  {
+    additionalProperties: false,
+  },
+);
+
 export const createGqlResponseSchema = {
-  body: Type.Object(
+  body: Type.Union([gqlRequestSchema, Type.Array(gqlRequestSchema, { minItems: 1 })]),
+};
+
+export const getGqlQuerySchema = {
+  querystring: Type.Object(
     {
-      query: Type.String(),
-      variables: Type.Optional(Type.Record(Type.String(), Type.Any())),
+      query: Type.Optional(Type.String()),
+      variables: Type.Optional(Type.String()),
+      operationName: Type.Optional(Type.String()),
+      extensions: Type.Optional(Type.String()),
     },
     {
       additionalProperties: false,
@@ -0,0 +1,65 @@
+import {
+  GraphQLEnumType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { AuditEntry } from '../../../plugins/db.js';
+import { AuditAction, AuditedEntity } from '../../audit/schemas.js';
+import { UUIDType } from './uuid.js';
+import { DateTimeType } from './date-time.js';
+import { Context } from './context.js';
+
+const toEnumValues = (values: string[]) =>
+  Object.fromEntries(values.map((value) => [value, { value }]));
+
+export const AuditActionType = new GraphQLEnumType({
+  name: 'AuditAction',
+  values: toEnumValues(Object.values(AuditAction)),
+});
+
+export const AuditedEntityType = new GraphQLEnumType({
+  name: 'AuditedEntity',
+  values: toEnumValues(Object.values(AuditedEntity)),
+});
+
+interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Values keep their type by being passed as JSON, `null` included.
+export const AuditChangeType = new GraphQLObjectType<AuditChange, Context>({
+  name: 'AuditChange',
+  fields: () => ({
+    field: { type: new GraphQLNonNull(GraphQLString) },
+    before: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: ({ before }) => JSON.stringify(before),
+    },
+    after: {
+      type: new GraphQLNonNull(GraphQLString),
+      resolve: ({ after }) => JSON.stringify(after),
+    },
+  }),
+});
+
+export const AuditLogType = new GraphQLObjectType<AuditEntry, Context>({
+  name: 'AuditLog',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(UUIDType) },
+    action: { type: new GraphQLNonNull(AuditActionType) },
+    entity: { type: new GraphQLNonNull(AuditedEntityType) },
+    entityId: { type: new GraphQLNonNull(GraphQLString) },
+    actorId: { type: UUIDType },
+    source: { type: new GraphQLNonNull(GraphQLString) },
+    changes: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AuditChangeType))),
+      resolve: ({ changes }): AuditChange[] =>
+        Object.entries(changes).map(([field, change]) => ({ field, ...change })),
+    },
+    createdAt: { type: new GraphQLNonNull(DateTimeType) },
+  }),
+});
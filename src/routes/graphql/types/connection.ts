@@ -0,0 +1,46 @@
+import {
+  GraphQLBoolean,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { PageInfo } from '../pagination.js';
+import { Context } from './context.js';
+
+export const PageInfoType = new GraphQLObjectType<PageInfo, Context>({
+  name: 'PageInfo',
+  fields: () => ({
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    startCursor: { type: GraphQLString },
+    endCursor: { type: GraphQLString },
+  }),
+});
+
+export const connectionArgs = {
+  first: { type: GraphQLInt },
+  after: { type: GraphQLString },
+  last: { type: GraphQLInt },
+  before: { type: GraphQLString },
+};
+
+export const createConnectionType = (nodeType: GraphQLObjectType) => {
+  const EdgeType = new GraphQLObjectType<unknown, Context>({
+    name: `${nodeType.name}Edge`,
+    fields: () => ({
+      cursor: { type: new GraphQLNonNull(GraphQLString) },
+      node: { type: new GraphQLNonNull(nodeType) },
+    }),
+  });
+
+  return new GraphQLObjectType<unknown, Context>({
+    name: `${nodeType.name}Connection`,
+    fields: () => ({
+      edges: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(EdgeType))) },
+      pageInfo: { type: new GraphQLNonNull(PageInfoType) },
+      totalCount: { type: new GraphQLNonNull(GraphQLInt) },
+    }),
+  });
+};
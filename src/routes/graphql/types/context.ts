@@ -0,0 +1,31 @@
+import { PrismaClient, User } from '@prisma/client';
+import { PubSub } from '../../../plugins/pubsub.js';
+import { PostQuota } from '../../../plugins/post-quota.js';
+import { Ledger } from '../../../plugins/ledger.js';
+import { Authenticator } from '../../../plugins/auth.js';
+import { Policy } from '../../../plugins/policy.js';
+import { SoftDelete } from '../../../plugins/soft-delete.js';
+import { Search } from '../../../plugins/search.js';
+import { Feed } from '../../../plugins/feed.js';
+import { Recommendations } from '../../../plugins/recommendations.js';
+import { SocialGraph } from '../../../plugins/social-graph.js';
+import { NPlusOneDetector } from '../../../plugins/n-plus-one.js';
+import { Loaders } from '../loaders.js';
+
+export interface Context {
+  prisma: PrismaClient;
+  pubsub: PubSub;
+  postQuota: PostQuota;
+  ledger: Ledger;
+  authenticator: Authenticator;
+  policy: Policy;
+  softDelete: SoftDelete;
+  search: Search;
+  feed: Feed;
+  recommendations: Recommendations;
+  socialGraph: SocialGraph;
+  nPlusOne: NPlusOneDetector;
+  /** The authenticated caller, `null` for anonymous requests. */
+  viewer: User | null;
+  loaders: Loaders;
+}
@@ -0,0 +1,23 @@
+import { GraphQLScalarType, Kind } from 'graphql';
+
+const parseDateTime = (value: unknown) => {
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new TypeError(`Invalid DateTime.`);
+  }
+  return date;
+};
+
+export const DateTimeType = new GraphQLScalarType<Date, string>({
+  name: 'DateTime',
+  serialize(value) {
+    if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+      throw new TypeError(`Invalid DateTime.`);
+    }
+    return value.toISOString();
+  },
+  parseValue: parseDateTime,
+  parseLiteral(ast) {
+    return parseDateTime(ast.kind === Kind.STRING ? ast.value : undefined);
+  },
+});
@@ -0,0 +1,82 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+import {
+  FilterFields,
+  FilterKind,
+  filterOperators,
+  postFilterFields,
+  profileFilterFields,
+  userFilterFields,
+} from '../filters.js';
+import { UUIDType } from './uuid.js';
+import { MemberTypeIdType } from './member-type.js';
+import { DateTimeType } from './date-time.js';
+
+export const SortOrderType = new GraphQLEnumType({
+  name: 'SortOrder',
+  values: {
+    ASC: { value: 'asc' },
+    DESC: { value: 'desc' },
+  },
+});
+
+const filterScalars: Record<FilterKind, { name: string; type: GraphQLInputType }> = {
+  uuid: { name: 'UUIDFilter', type: UUIDType },
+  string: { name: 'StringFilter', type: GraphQLString },
+  float: { name: 'FloatFilter', type: GraphQLFloat },
+  int: { name: 'IntFilter', type: GraphQLInt },
+  dateTime: { name: 'DateTimeFilter', type: DateTimeType },
+  boolean: { name: 'BooleanFilter', type: GraphQLBoolean },
+  memberTypeId: { name: 'MemberTypeIdFilter', type: MemberTypeIdType },
+};
+
+const createFilterType = (kind: FilterKind) => {
+  const { name, type } = filterScalars[kind];
+  const operators: readonly string[] = filterOperators[kind];
+  return new GraphQLInputObjectType({
+    name,
+    fields: Object.fromEntries(
+      operators.map((operator) => [
+        operator,
+        { type: operator === 'in' ? new GraphQLList(new GraphQLNonNull(type)) : type },
+      ]),
+    ),
+  });
+};
+
+const filterTypes = Object.fromEntries(
+  Object.keys(filterScalars).map((kind) => [kind, createFilterType(kind as FilterKind)]),
+) as Record<FilterKind, GraphQLInputObjectType>;
+
+const createFilterArgs = (name: string, fields: FilterFields) => {
+  const WhereInputType = new GraphQLInputObjectType({
+    name: `${name}WhereInput`,
+    fields: Object.fromEntries(
+      Object.entries(fields).map(([field, kind]) => [field, { type: filterTypes[kind] }]),
+    ),
+  });
+  const OrderByInputType = new GraphQLInputObjectType({
+    name: `${name}OrderByInput`,
+    fields: Object.fromEntries(
+      Object.keys(fields).map((field) => [field, { type: SortOrderType }]),
+    ),
+  });
+
+  return {
+    where: { type: WhereInputType },
+    orderBy: { type: new GraphQLList(new GraphQLNonNull(OrderByInputType)) },
+  };
+};
+
+export const userFilterArgs = createFilterArgs('User', userFilterFields);
+export const postFilterArgs = createFilterArgs('Post', postFilterFields);
+export const profileFilterArgs = createFilterArgs('Profile', profileFilterFields);
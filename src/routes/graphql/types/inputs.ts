@@ -0,0 +1,98 @@
+import {
+  GraphQLBoolean,
+  GraphQLFloat,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType,
+  GraphQLInputType,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLString,
+} from 'graphql';
+import { Kind, TObject, TSchema } from '@sinclair/typebox';
+import { createUserSchema, changeUserByIdSchema } from '../../users/schemas.js';
+import { createPostSchema, changePostByIdSchema } from '../../posts/schemas.js';
+import { createProfileSchema, changeProfileByIdSchema } from '../../profiles/schemas.js';
+import { memberTypeFields } from '../../member-types/schemas.js';
+import {
+  createChargeSchema,
+  createDepositSchema,
+  createTransferSchema,
+} from '../../users/_userId/transactions/schemas.js';
+import { UUIDType } from './uuid.js';
+import { MemberTypeIdType } from './member-type.js';
+
+const toInputType = (schema: TSchema): GraphQLInputType => {
+  switch (schema[Kind]) {
+    case 'String':
+      if (schema.format === 'uuid') {
+        return UUIDType;
+      }
+      if (schema.pattern === memberTypeFields.id.pattern) {
+        return MemberTypeIdType;
+      }
+      return GraphQLString;
+    case 'Integer':
+      return GraphQLInt;
+    case 'Number':
+      return GraphQLFloat;
+    case 'Boolean':
+      return GraphQLBoolean;
+  }
+  throw new TypeError(`Unsupported schema kind: ${String(schema[Kind])}.`);
+};
+
+// Input fields are derived from the REST body schemas, so both APIs accept the same dto.
+const toInputFields = (schema: TObject) => (): GraphQLInputFieldConfigMap => {
+  const required = new Set(schema.required ?? []);
+  return Object.fromEntries(
+    Object.entries(schema.properties).map(([name, property]) => {
+      const type = toInputType(property);
+      return [name, { type: required.has(name) ? new GraphQLNonNull(type) : type }];
+    }),
+  );
+};
+
+export const CreateUserInputType = new GraphQLInputObjectType({
+  name: 'CreateUserInput',
+  fields: toInputFields(createUserSchema.body),
+});
+
+export const ChangeUserInputType = new GraphQLInputObjectType({
+  name: 'ChangeUserInput',
+  fields: toInputFields(changeUserByIdSchema.body),
+});
+
+export const CreatePostInputType = new GraphQLInputObjectType({
+  name: 'CreatePostInput',
+  fields: toInputFields(createPostSchema.body),
+});
+
+export const ChangePostInputType = new GraphQLInputObjectType({
+  name: 'ChangePostInput',
+  fields: toInputFields(changePostByIdSchema.body),
+});
+
+export const CreateProfileInputType = new GraphQLInputObjectType({
+  name: 'CreateProfileInput',
+  fields: toInputFields(createProfileSchema.body),
+});
+
+export const ChangeProfileInputType = new GraphQLInputObjectType({
+  name: 'ChangeProfileInput',
+  fields: toInputFields(changeProfileByIdSchema.body),
+});
+
+export const CreateTransferInputType = new GraphQLInputObjectType({
+  name: 'CreateTransferInput',
+  fields: toInputFields(createTransferSchema.body),
+});
+
+export const CreateChargeInputType = new GraphQLInputObjectType({
+  name: 'CreateChargeInput',
+  fields: toInputFields(createChargeSchema.body),
+});
+
+export const CreateDepositInputType = new GraphQLInputObjectType({
+  name: 'CreateDepositInput',
+  fields: toInputFields(createDepositSchema.body),
+});
@@ -0,0 +1,26 @@
+import {
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLObjectType,
+} from 'graphql';
+import { MemberType } from '@prisma/client';
+import { MemberTypeId } from '../../member-types/schemas.js';
+import { Context } from './context.js';
+
+export const MemberTypeIdType = new GraphQLEnumType({
+  name: 'MemberTypeId',
+  values: Object.fromEntries(
+    Object.values(MemberTypeId).map((id) => [id, { value: id }]),
+  ),
+});
+
+export const MemberTypeType = new GraphQLObjectType<MemberType, Context>({
+  name: 'MemberType',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(MemberTypeIdType) },
+    discount: { type: new GraphQLNonNull(GraphQLFloat) },
+    postsLimitPerMonth: { type: new GraphQLNonNull(GraphQLInt) },
+  }),
+});
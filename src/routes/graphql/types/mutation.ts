@@ -0,0 +1,300 @@
+import { GraphQLBoolean, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { Static, TSchema } from '@sinclair/typebox';
+import { createUserSchema, changeUserByIdSchema } from '../../users/schemas.js';
+import { createPostSchema, changePostByIdSchema } from '../../posts/schemas.js';
+import { createProfileSchema, changeProfileByIdSchema } from '../../profiles/schemas.js';
+import {
+  createChargeSchema,
+  createDepositSchema,
+  createTransferSchema,
+} from '../../users/_userId/transactions/schemas.js';
+import { UUIDType } from './uuid.js';
+import { UserType } from './user.js';
+import { PostType } from './post.js';
+import { ProfileType } from './profile.js';
+import { BalanceReconciliationType, TransactionType } from './transaction.js';
+import {
+  ChangePostInputType,
+  ChangeProfileInputType,
+  ChangeUserInputType,
+  CreateChargeInputType,
+  CreateDepositInputType,
+  CreatePostInputType,
+  CreateProfileInputType,
+  CreateTransferInputType,
+  CreateUserInputType,
+} from './inputs.js';
+import { Context } from './context.js';
+
+type CreateArgs<T extends { body: TSchema }> = {
+  dto: Static<T['body']>;
+};
+
+type ChangeArgs<T extends { body: TSchema }> = {
+  id: string;
+  dto: Static<T['body']>;
+};
+
+type UserDtoArgs<T extends { body: TSchema }> = {
+  userId: string;
+  dto: Static<T['body']>;
+};
+
+type IdArgs = {
+  id: string;
+};
+
+type SubscriptionArgs = {
+  userId: string;
+  authorId: string;
+};
+
+export const MutationType = new GraphQLObjectType<unknown, Context>({
+  name: 'Mutation',
+  fields: () => ({
+    createUser: {
+      type: new GraphQLNonNull(UserType),
+      args: {
+        dto: { type: new GraphQLNonNull(CreateUserInputType) },
+      },
+      resolve: async (
+        _source,
+        { dto }: CreateArgs<typeof createUserSchema>,
+        { ledger, authenticator },
+      ) => ledger.createUser(await authenticator.withPasswordHash(dto)),
+    },
+    changeUser: {
+      type: new GraphQLNonNull(UserType),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(ChangeUserInputType) },
+      },
+      resolve: (
+        _source,
+        { id, dto }: ChangeArgs<typeof changeUserByIdSchema>,
+        { prisma, policy, viewer },
+      ) => {
+        policy.assertOwnerOrAdmin(viewer, id);
+        return prisma.user.update({ where: { id }, data: dto });
+      },
+    },
+    deleteUser: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (_source, { id }: IdArgs, { softDelete, policy, viewer }) => {
+        policy.assertOwnerOrAdmin(viewer, id);
+        await softDelete.deleteUser(id);
+        return true;
+      },
+    },
+    restoreUser: {
+      type: new GraphQLNonNull(UserType),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: (_source, { id }: IdArgs, { softDelete, policy, viewer }) => {
+        policy.assertAdmin(viewer);
+        return softDelete.restoreUser(id);
+      },
+    },
+    createPost: {
+      type: new GraphQLNonNull(PostType),
+      args: {
+        dto: { type: new GraphQLNonNull(CreatePostInputType) },
+      },
+      resolve: async (
+        _source,
+        { dto }: CreateArgs<typeof createPostSchema>,
+        { postQuota, pubsub, policy, viewer },
+      ) => {
+        await policy.assertPostAuthor(viewer, dto);
+        const post = await postQuota.createPost(dto);
+        pubsub.publish('postCreated', post);
+        return post;
+      },
+    },
+    changePost: {
+      type: new GraphQLNonNull(PostType),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(ChangePostInputType) },
+      },
+      resolve: async (
+        _source,
+        { id, dto }: ChangeArgs<typeof changePostByIdSchema>,
+        { prisma, policy, viewer },
+      ) => {
+        await policy.assertPostAuthor(viewer, { id });
+        return prisma.post.update({ where: { id }, data: dto });
+      },
+    },
+    deletePost: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (_source, { id }: IdArgs, { softDelete, policy, viewer }) => {
+        await policy.assertPostAuthor(viewer, { id });
+        await softDelete.deletePost(id);
+        return true;
+      },
+    },
+    restorePost: {
+      type: new GraphQLNonNull(PostType),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (_source, { id }: IdArgs, { softDelete, policy, viewer }) => {
+        const post = await softDelete.findDeletedPost(id);
+        await policy.assertPostAuthor(viewer, post);
+        return softDelete.restorePost(id);
+      },
+    },
+    createProfile: {
+      type: new GraphQLNonNull(ProfileType),
+      args: {
+        dto: { type: new GraphQLNonNull(CreateProfileInputType) },
+      },
+      resolve: async (
+        _source,
+        { dto }: CreateArgs<typeof createProfileSchema>,
+        { prisma, policy, viewer },
+      ) => {
+        await policy.assertProfileOwner(viewer, dto);
+        return prisma.profile.create({ data: dto });
+      },
+    },
+    changeProfile: {
+      type: new GraphQLNonNull(ProfileType),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(ChangeProfileInputType) },
+      },
+      resolve: async (
+        _source,
+        { id, dto }: ChangeArgs<typeof changeProfileByIdSchema>,
+        { prisma, policy, viewer },
+      ) => {
+        await policy.assertProfileChange(viewer, id, dto);
+        return prisma.profile.update({ where: { id }, data: dto });
+      },
+    },
+    deleteProfile: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (_source, { id }: IdArgs, { prisma, policy, viewer }) => {
+        await policy.assertProfileOwner(viewer, { id });
+        await prisma.profile.delete({ where: { id } });
+        return true;
+      },
+    },
+    subscribeTo: {
+      type: new GraphQLNonNull(UserType),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        authorId: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (
+        _source,
+        { userId, authorId }: SubscriptionArgs,
+        { prisma, pubsub, policy, viewer },
+      ) => {
+        await policy.assertSubscriber(viewer, userId);
+        const { subscriber } = await prisma.subscribersOnAuthors.create({
+          data: {
+            subscriberId: userId,
+            authorId,
+          },
+          include: {
+            subscriber: true,
+          },
+        });
+        pubsub.publish('userSubscribed', { subscriber, authorId });
+        return subscriber;
+      },
+    },
+    unsubscribeFrom: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        authorId: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async (
+        _source,
+        { userId, authorId }: SubscriptionArgs,
+        { prisma, pubsub, policy, viewer },
+      ) => {
+        await policy.assertSubscriber(viewer, userId);
+        await prisma.subscribersOnAuthors.delete({
+          where: {
+            subscriberId_authorId: {
+              subscriberId: userId,
+              authorId,
+            },
+          },
+        });
+        pubsub.publish('userUnsubscribed', { subscriberId: userId, authorId });
+        return true;
+      },
+    },
+    transfer: {
+      type: new GraphQLNonNull(TransactionType),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(CreateTransferInputType) },
+      },
+      resolve: (
+        _source,
+        { userId, dto }: UserDtoArgs<typeof createTransferSchema>,
+        { ledger, policy, viewer },
+      ) => {
+        policy.assertOwnerOrAdmin(viewer, userId);
+        return ledger.transfer(userId, dto.recipientId, dto.amount);
+      },
+    },
+    charge: {
+      type: new GraphQLNonNull(TransactionType),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(CreateChargeInputType) },
+      },
+      resolve: (
+        _source,
+        { userId, dto }: UserDtoArgs<typeof createChargeSchema>,
+        { ledger, policy, viewer },
+      ) => {
+        policy.assertOwnerOrAdmin(viewer, userId);
+        return ledger.charge(userId, dto.amount);
+      },
+    },
+    deposit: {
+      type: new GraphQLNonNull(TransactionType),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        dto: { type: new GraphQLNonNull(CreateDepositInputType) },
+      },
+      resolve: (
+        _source,
+        { userId, dto }: UserDtoArgs<typeof createDepositSchema>,
+        { ledger, policy, viewer },
+      ) => {
+        policy.assertAdmin(viewer);
+        return ledger.deposit(userId, dto.amount);
+      },
+    },
+    reconcileBalance: {
+      type: BalanceReconciliationType,
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: (_source, { userId }: { userId: string }, { ledger, policy, viewer }) => {
+        policy.assertAdmin(viewer);
+        return ledger.reconcile(userId, { fix: true });
+      },
+    },
+  }),
+});
@@ -0,0 +1,14 @@
+import { GraphQLInt, GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { PostQuotaReport } from '../../../plugins/post-quota.js';
+import { DateTimeType } from './date-time.js';
+import { Context } from './context.js';
+
+export const PostQuotaType = new GraphQLObjectType<PostQuotaReport, Context>({
+  name: 'PostQuota',
+  fields: () => ({
+    limit: { type: GraphQLInt },
+    used: { type: new GraphQLNonNull(GraphQLInt) },
+    remaining: { type: GraphQLInt },
+    resetsAt: { type: new GraphQLNonNull(DateTimeType) },
+  }),
+});
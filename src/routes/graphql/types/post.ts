@@ -0,0 +1,28 @@
+import { GraphQLList, GraphQLNonNull, GraphQLObjectType, GraphQLString } from 'graphql';
+import { Post } from '@prisma/client';
+import { UUIDType } from './uuid.js';
+import { DateTimeType } from './date-time.js';
+import { Context } from './context.js';
+import { AuditLogType } from './audit-log.js';
+import { AuditedEntity } from '../../audit/schemas.js';
+import { createConnectionType } from './connection.js';
+
+export const PostType = new GraphQLObjectType<Post, Context>({
+  name: 'Post',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(UUIDType) },
+    title: { type: new GraphQLNonNull(GraphQLString) },
+    content: { type: new GraphQLNonNull(GraphQLString) },
+    createdAt: { type: new GraphQLNonNull(DateTimeType) },
+    authorId: { type: new GraphQLNonNull(UUIDType) },
+    auditLog: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AuditLogType))),
+      resolve: ({ id }, _args, { loaders, policy, viewer }) => {
+        policy.assertAdmin(viewer);
+        return loaders.auditLogByEntity.load(`${AuditedEntity.POST}:${id}`);
+      },
+    },
+  }),
+});
+
+export const PostConnectionType = createConnectionType(PostType);
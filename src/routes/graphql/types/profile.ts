@@ -0,0 +1,39 @@
+import {
+  GraphQLBoolean,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+} from 'graphql';
+import { Profile } from '@prisma/client';
+import { UUIDType } from './uuid.js';
+import { MemberTypeIdType, MemberTypeType } from './member-type.js';
+import { Context } from './context.js';
+import { AuditLogType } from './audit-log.js';
+import { AuditedEntity } from '../../audit/schemas.js';
+import { createConnectionType } from './connection.js';
+
+export const ProfileType = new GraphQLObjectType<Profile, Context>({
+  name: 'Profile',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(UUIDType) },
+    isMale: { type: new GraphQLNonNull(GraphQLBoolean) },
+    yearOfBirth: { type: new GraphQLNonNull(GraphQLInt) },
+    userId: { type: new GraphQLNonNull(UUIDType) },
+    memberTypeId: { type: new GraphQLNonNull(MemberTypeIdType) },
+    memberType: {
+      type: new GraphQLNonNull(MemberTypeType),
+      resolve: ({ memberTypeId }, _args, { loaders }) =>
+        loaders.memberTypeById.load(memberTypeId),
+    },
+    auditLog: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AuditLogType))),
+      resolve: ({ id }, _args, { loaders, policy, viewer }) => {
+        policy.assertAdmin(viewer);
+        return loaders.auditLogByEntity.load(`${AuditedEntity.PROFILE}:${id}`);
+      },
+    },
+  }),
+});
+
+export const ProfileConnectionType = createConnectionType(ProfileType);
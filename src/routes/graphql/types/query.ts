@@ -0,0 +1,268 @@
+import {
+  GraphQLError,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { Post, Prisma } from '@prisma/client';
+import { MemberTypeId } from '../../member-types/schemas.js';
+import { MAX_SEARCH_LIMIT, SearchEntity } from '../../search/schemas.js';
+import { MAX_RECOMMENDATIONS } from '../../users/_userId/recommended-authors/schemas.js';
+import { feedOrderBy } from '../../../plugins/feed.js';
+import { UUIDType } from './uuid.js';
+import { DateTimeType } from './date-time.js';
+import { MemberTypeIdType, MemberTypeType } from './member-type.js';
+import { PostConnectionType, PostType } from './post.js';
+import { ProfileConnectionType, ProfileType } from './profile.js';
+import { UserConnectionType, UserType } from './user.js';
+import { SearchEntityType, SearchHitType } from './search.js';
+import { RecommendedAuthorType } from './recommended-author.js';
+import { Context } from './context.js';
+import { findManyWithLookahead } from '../lookahead.js';
+import { userRelationPrimers } from '../loaders.js';
+import { connectionArgs } from './connection.js';
+import { ConnectionArgs, findManyConnection } from '../pagination.js';
+import { postFilterArgs, profileFilterArgs, userFilterArgs } from './filters.js';
+import {
+  FilterArgs,
+  postFilterFields,
+  profileFilterFields,
+  toPrismaOrderBy,
+  toPrismaWhere,
+  userFilterFields,
+} from '../filters.js';
+
+type ListArgs = FilterArgs & ConnectionArgs;
+
+interface FeedArgs extends ConnectionArgs {
+  userId: string;
+  since?: Date | null;
+}
+
+interface PathArgs {
+  fromUserId: string;
+  toUserId: string;
+  maxDepth: number;
+}
+
+interface SearchArgs {
+  text: string;
+  types?: SearchEntity[] | null;
+  limit: number;
+  offset: number;
+}
+
+export const QueryType = new GraphQLObjectType<unknown, Context>({
+  name: 'Query',
+  fields: () => ({
+    me: {
+      type: UserType,
+      extensions: { viewerScoped: true },
+      resolve: (_source, _args, { viewer }) => viewer,
+    },
+    memberTypes: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(MemberTypeType))),
+      resolve: (_source, _args, { prisma }) => prisma.memberType.findMany(),
+    },
+    memberType: {
+      type: MemberTypeType,
+      args: {
+        id: { type: new GraphQLNonNull(MemberTypeIdType) },
+      },
+      resolve: (_source, { id }: { id: MemberTypeId }, { prisma }) =>
+        prisma.memberType.findUnique({ where: { id } }),
+    },
+    users: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      args: userFilterArgs,
+      resolve: (_source, { where, orderBy }: FilterArgs, { prisma, loaders }, info) =>
+        findManyWithLookahead(info, loaders, userRelationPrimers, (include) =>
+          prisma.user.findMany({
+            where: toPrismaWhere<Prisma.UserWhereInput>(where, userFilterFields),
+            orderBy: toPrismaOrderBy<Prisma.UserOrderByWithRelationInput>(
+              orderBy,
+              userFilterFields,
+            ),
+            include,
+          }),
+        ),
+    },
+    usersConnection: {
+      type: new GraphQLNonNull(UserConnectionType),
+      args: { ...userFilterArgs, ...connectionArgs },
+      resolve: (_source, args: ListArgs, { prisma, loaders }, info) => {
+        const where = toPrismaWhere<Prisma.UserWhereInput>(args.where, userFilterFields);
+        return findManyConnection(
+          args,
+          (page) =>
+            findManyWithLookahead(
+              info,
+              loaders,
+              userRelationPrimers,
+              (include) => prisma.user.findMany({ ...page, where, include }),
+              ['edges', 'node'],
+            ),
+          () => prisma.user.count({ where }),
+          toPrismaOrderBy<Prisma.UserOrderByWithRelationInput>(
+            args.orderBy,
+            userFilterFields,
+          ),
+        );
+      },
+    },
+    user: {
+      type: UserType,
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: (_source, { id }: { id: string }, { prisma }) =>
+        prisma.user.findUnique({ where: { id } }),
+    },
+    posts: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(PostType))),
+      args: postFilterArgs,
+      resolve: (_source, { where, orderBy }: FilterArgs, { prisma }) =>
+        prisma.post.findMany({
+          where: toPrismaWhere<Prisma.PostWhereInput>(where, postFilterFields),
+          orderBy: toPrismaOrderBy<Prisma.PostOrderByWithRelationInput>(
+            orderBy,
+            postFilterFields,
+          ),
+        }),
+    },
+    postsConnection: {
+      type: new GraphQLNonNull(PostConnectionType),
+      args: { ...postFilterArgs, ...connectionArgs },
+      resolve: (_source, args: ListArgs, { prisma }) => {
+        const where = toPrismaWhere<Prisma.PostWhereInput>(args.where, postFilterFields);
+        return findManyConnection(
+          args,
+          (page) => prisma.post.findMany({ ...page, where }),
+          () => prisma.post.count({ where }),
+          toPrismaOrderBy<Prisma.PostOrderByWithRelationInput>(
+            args.orderBy,
+            postFilterFields,
+          ),
+        );
+      },
+    },
+    post: {
+      type: PostType,
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: (_source, { id }: { id: string }, { prisma }) =>
+        prisma.post.findUnique({ where: { id } }),
+    },
+    profiles: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(ProfileType))),
+      args: profileFilterArgs,
+      resolve: (_source, { where, orderBy }: FilterArgs, { prisma }) =>
+        prisma.profile.findMany({
+          where: toPrismaWhere<Prisma.ProfileWhereInput>(where, profileFilterFields),
+          orderBy: toPrismaOrderBy<Prisma.ProfileOrderByWithRelationInput>(
+            orderBy,
+            profileFilterFields,
+          ),
+        }),
+    },
+    profilesConnection: {
+      type: new GraphQLNonNull(ProfileConnectionType),
+      args: { ...profileFilterArgs, ...connectionArgs },
+      resolve: (_source, args: ListArgs, { prisma }) => {
+        const where = toPrismaWhere<Prisma.ProfileWhereInput>(
+          args.where,
+          profileFilterFields,
+        );
+        return findManyConnection(
+          args,
+          (page) => prisma.profile.findMany({ ...page, where }),
+          () => prisma.profile.count({ where }),
+          toPrismaOrderBy<Prisma.ProfileOrderByWithRelationInput>(
+            args.orderBy,
+            profileFilterFields,
+          ),
+        );
+      },
+    },
+    profile: {
+      type: ProfileType,
+      args: {
+        id: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: (_source, { id }: { id: string }, { prisma }) =>
+        prisma.profile.findUnique({ where: { id } }),
+    },
+    feed: {
+      type: new GraphQLNonNull(PostConnectionType),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        since: { type: DateTimeType },
+        ...connectionArgs,
+      },
+      resolve: (
+        _source,
+        { userId, since, ...args }: FeedArgs,
+        { prisma, feed, policy, viewer },
+      ) => {
+        policy.assertOwnerOrAdmin(viewer, userId);
+        const where = feed.where(userId, since);
+        return findManyConnection<Post, Prisma.PostOrderByWithRelationInput>(
+          args,
+          (page) => prisma.post.findMany({ ...page, where }),
+          () => prisma.post.count({ where }),
+          feedOrderBy,
+        );
+      },
+    },
+    recommendedAuthors: {
+      type: new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(RecommendedAuthorType)),
+      ),
+      args: {
+        userId: { type: new GraphQLNonNull(UUIDType) },
+        limit: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 10 },
+      },
+      resolve: async (
+        _source,
+        { userId, limit }: { userId: string; limit: number },
+        { recommendations },
+      ) => {
+        if (limit < 1 || limit > MAX_RECOMMENDATIONS) {
+          throw new GraphQLError(`"limit" must be between 1 and ${MAX_RECOMMENDATIONS}.`);
+        }
+        return (await recommendations.recommendAuthors(userId, limit)) ?? [];
+      },
+    },
+    pathBetween: {
+      type: new GraphQLList(new GraphQLNonNull(UserType)),
+      args: {
+        fromUserId: { type: new GraphQLNonNull(UUIDType) },
+        toUserId: { type: new GraphQLNonNull(UUIDType) },
+        maxDepth: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 3 },
+      },
+      resolve: (_source, { fromUserId, toUserId, maxDepth }: PathArgs, { socialGraph }) =>
+        socialGraph.findPath(fromUserId, toUserId, maxDepth),
+    },
+    search: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(SearchHitType))),
+      args: {
+        text: { type: new GraphQLNonNull(GraphQLString) },
+        types: { type: new GraphQLList(new GraphQLNonNull(SearchEntityType)) },
+        limit: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 20 },
+        offset: { type: new GraphQLNonNull(GraphQLInt), defaultValue: 0 },
+      },
+      resolve: (_source, { types, limit, offset, ...args }: SearchArgs, { search }) => {
+        if (limit < 0 || limit > MAX_SEARCH_LIMIT) {
+          throw new GraphQLError(`"limit" must be between 0 and ${MAX_SEARCH_LIMIT}.`);
+        }
+        if (offset < 0) {
+          throw new GraphQLError('"offset" must not be negative.');
+        }
+        return search.search({ ...args, types: types ?? undefined, limit, offset });
+      },
+    },
+  }),
+});
@@ -0,0 +1,22 @@
+import {
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { RecommendedAuthor } from '../../../plugins/recommendations.js';
+import { UserType } from './user.js';
+import { Context } from './context.js';
+
+export const RecommendedAuthorType = new GraphQLObjectType<RecommendedAuthor, Context>({
+  name: 'RecommendedAuthor',
+  fields: () => ({
+    user: { type: new GraphQLNonNull(UserType) },
+    score: { type: new GraphQLNonNull(GraphQLFloat) },
+    followedByFollowing: { type: new GraphQLNonNull(GraphQLInt) },
+    sharedSubscribers: { type: new GraphQLNonNull(GraphQLInt) },
+    recentPosts: { type: new GraphQLNonNull(GraphQLInt) },
+    explanation: { type: new GraphQLNonNull(GraphQLString) },
+  }),
+});
@@ -0,0 +1,33 @@
+import {
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { SearchHit } from '../../../plugins/search.js';
+import { SearchEntity } from '../../search/schemas.js';
+import { UUIDType } from './uuid.js';
+import { PostType } from './post.js';
+import { UserType } from './user.js';
+import { Context } from './context.js';
+
+export const SearchEntityType = new GraphQLEnumType({
+  name: 'SearchEntity',
+  values: Object.fromEntries(
+    Object.values(SearchEntity).map((entity) => [entity, { value: entity }]),
+  ),
+});
+
+export const SearchHitType = new GraphQLObjectType<SearchHit, Context>({
+  name: 'SearchHit',
+  fields: () => ({
+    entity: { type: new GraphQLNonNull(SearchEntityType) },
+    id: { type: new GraphQLNonNull(UUIDType) },
+    score: { type: new GraphQLNonNull(GraphQLFloat) },
+    title: { type: new GraphQLNonNull(GraphQLString) },
+    snippet: { type: new GraphQLNonNull(GraphQLString) },
+    post: { type: PostType },
+    user: { type: UserType },
+  }),
+});
@@ -0,0 +1,74 @@
+import { GraphQLNonNull, GraphQLObjectType } from 'graphql';
+import { Post } from '@prisma/client';
+import { PubSubEvents } from '../../../plugins/pubsub.js';
+import { UUIDType } from './uuid.js';
+import { PostType } from './post.js';
+import { UserType } from './user.js';
+import { Context } from './context.js';
+
+export const SubscriptionType = new GraphQLObjectType<unknown, Context>({
+  name: 'Subscription',
+  fields: () => ({
+    postCreated: {
+      type: new GraphQLNonNull(PostType),
+      args: {
+        authorId: { type: UUIDType },
+      },
+      subscribe: (_source, { authorId }: { authorId?: string | null }, { pubsub }) =>
+        pubsub.subscribe('postCreated', {
+          filter: (post) => !authorId || post.authorId === authorId,
+        }),
+      resolve: (post) => post as Post,
+    },
+    feedUpdated: {
+      type: new GraphQLNonNull(PostType),
+      subscribe: async (_source, _args, context: Context) => {
+        const { prisma, pubsub } = context;
+        context.policy.assertAuthenticated(context.viewer);
+        const userId = context.viewer.id;
+        // Follows are tracked in memory so that delivering a post costs no query.
+        // Listening starts before the initial read, so no follow made meanwhile is missed.
+        const followed = new Set<string>();
+        const disposers = [
+          pubsub.listen('userSubscribed', ({ subscriber, authorId }) => {
+            if (subscriber.id === userId) {
+              followed.add(authorId);
+            }
+          }),
+          pubsub.listen('userUnsubscribed', ({ subscriberId, authorId }) => {
+            if (subscriberId === userId) {
+              followed.delete(authorId);
+            }
+          }),
+        ];
+        const iterator = pubsub.subscribe('postCreated', {
+          filter: ({ authorId }) => followed.has(authorId),
+          onClose: () => disposers.forEach((dispose) => dispose()),
+        });
+
+        try {
+          const subscriptions = await prisma.subscribersOnAuthors.findMany({
+            where: { subscriberId: userId },
+          });
+          subscriptions.forEach(({ authorId }) => followed.add(authorId));
+        } catch (error) {
+          await iterator.return?.();
+          throw error;
+        }
+        return iterator;
+      },
+      resolve: (post) => post as Post,
+    },
+    userSubscribed: {
+      type: new GraphQLNonNull(UserType),
+      args: {
+        authorId: { type: new GraphQLNonNull(UUIDType) },
+      },
+      subscribe: (_source, { authorId }: { authorId: string }, { pubsub }) =>
+        pubsub.subscribe('userSubscribed', {
+          filter: (event) => event.authorId === authorId,
+        }),
+      resolve: (event) => (event as PubSubEvents['userSubscribed']).subscriber,
+    },
+  }),
+});
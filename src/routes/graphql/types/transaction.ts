@@ -0,0 +1,44 @@
+import {
+  GraphQLEnumType,
+  GraphQLFloat,
+  GraphQLNonNull,
+  GraphQLObjectType,
+} from 'graphql';
+import { Transaction } from '@prisma/client';
+import { BalanceReconciliation } from '../../../plugins/ledger.js';
+import { TransactionKind } from '../../users/_userId/transactions/schemas.js';
+import { UUIDType } from './uuid.js';
+import { DateTimeType } from './date-time.js';
+import { Context } from './context.js';
+
+export const TransactionKindType = new GraphQLEnumType({
+  name: 'TransactionKind',
+  values: Object.fromEntries(
+    Object.values(TransactionKind).map((kind) => [kind, { value: kind }]),
+  ),
+});
+
+export const TransactionType = new GraphQLObjectType<Transaction, Context>({
+  name: 'Transaction',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(UUIDType) },
+    kind: { type: new GraphQLNonNull(TransactionKindType) },
+    amount: { type: new GraphQLNonNull(GraphQLFloat) },
+    discount: { type: new GraphQLNonNull(GraphQLFloat) },
+    createdAt: { type: new GraphQLNonNull(DateTimeType) },
+    senderId: { type: UUIDType },
+    recipientId: { type: UUIDType },
+  }),
+});
+
+export const BalanceReconciliationType = new GraphQLObjectType<
+  BalanceReconciliation,
+  Context
+>({
+  name: 'BalanceReconciliation',
+  fields: () => ({
+    balance: { type: new GraphQLNonNull(GraphQLFloat) },
+    ledgerBalance: { type: new GraphQLNonNull(GraphQLFloat) },
+    difference: { type: new GraphQLNonNull(GraphQLFloat) },
+  }),
+});
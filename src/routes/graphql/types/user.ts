@@ -0,0 +1,130 @@
+import {
+  GraphQLFloat,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLString,
+} from 'graphql';
+import { User } from '@prisma/client';
+import { UUIDType } from './uuid.js';
+import { ProfileType } from './profile.js';
+import { PostConnectionType, PostType } from './post.js';
+import { PostQuotaType } from './post-quota.js';
+import { BalanceReconciliationType, TransactionType } from './transaction.js';
+import { Context } from './context.js';
+import { AuditLogType } from './audit-log.js';
+import { AuditedEntity } from '../../audit/schemas.js';
+import { connectionArgs, createConnectionType } from './connection.js';
+import { ConnectionArgs, paginate } from '../pagination.js';
+import { getMonthBounds, toPostQuotaReport } from '../../../plugins/post-quota.js';
+import { toBalanceReconciliation } from '../../../plugins/ledger.js';
+
+export const UserType: GraphQLObjectType<User, Context> = new GraphQLObjectType<
+  User,
+  Context
+>({
+  name: 'User',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(UUIDType) },
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    balance: { type: new GraphQLNonNull(GraphQLFloat) },
+    profile: {
+      type: ProfileType,
+      resolve: ({ id }, _args, { loaders }) => loaders.profileByUserId.load(id),
+    },
+    posts: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(PostType))),
+      resolve: ({ id }, _args, { loaders }) => loaders.postsByAuthorId.load(id),
+    },
+    postsConnection: {
+      type: new GraphQLNonNull(PostConnectionType),
+      args: connectionArgs,
+      resolve: async ({ id }, args: ConnectionArgs, { loaders }) =>
+        paginate(await loaders.postsByAuthorId.load(id), args),
+    },
+    postQuota: {
+      type: new GraphQLNonNull(PostQuotaType),
+      extensions: { viewerScoped: true },
+      resolve: async ({ id }, _args, { loaders }) => {
+        const { start, end } = getMonthBounds(new Date());
+        const [profile, used] = await Promise.all([
+          loaders.profileByUserId.load(id),
+          loaders.postCountByAuthorMonth.load(`${id}:${start.toISOString()}`),
+        ]);
+        const memberType =
+          profile && (await loaders.memberTypeById.load(profile.memberTypeId));
+        return toPostQuotaReport(memberType?.postsLimitPerMonth ?? null, used, end);
+      },
+    },
+    transactions: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(TransactionType))),
+      extensions: { viewerScoped: true },
+      resolve: ({ id }, _args, { loaders, policy, viewer }) => {
+        policy.assertOwnerOrAdmin(viewer, id);
+        return loaders.transactionsByUserId.load(id);
+      },
+    },
+    balanceReconciliation: {
+      type: new GraphQLNonNull(BalanceReconciliationType),
+      extensions: { viewerScoped: true },
+      resolve: async ({ id, balance }, _args, { loaders, policy, viewer }) => {
+        policy.assertOwnerOrAdmin(viewer, id);
+        const { received, sent } = await loaders.transactionSumsByUserId.load(id);
+        return toBalanceReconciliation(balance, received, sent);
+      },
+    },
+    auditLog: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(AuditLogType))),
+      resolve: ({ id }, _args, { loaders, policy, viewer }) => {
+        policy.assertAdmin(viewer);
+        return loaders.auditLogByEntity.load(`${AuditedEntity.USER}:${id}`);
+      },
+    },
+    userSubscribedTo: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      resolve: ({ id }, _args, { loaders }) => loaders.userSubscribedTo.load(id),
+    },
+    userSubscribedToConnection: {
+      type: new GraphQLNonNull(UserConnectionType),
+      args: connectionArgs,
+      resolve: async ({ id }, args: ConnectionArgs, { loaders }) =>
+        paginate(await loaders.userSubscribedTo.load(id), args),
+    },
+    subscribedToUser: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      resolve: ({ id }, _args, { loaders }) => loaders.subscribedToUser.load(id),
+    },
+    followersCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      resolve: ({ id }, _args, { loaders }) => loaders.followersCount.load(id),
+    },
+    followingCount: {
+      type: new GraphQLNonNull(GraphQLInt),
+      resolve: ({ id }, _args, { loaders }) => loaders.followingCount.load(id),
+    },
+    // Users followed by both this user and the user `with`.
+    mutualFollows: {
+      type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(UserType))),
+      args: {
+        with: { type: new GraphQLNonNull(UUIDType) },
+      },
+      resolve: async ({ id }, args: { with: string }, { loaders }) => {
+        const [own, other] = await Promise.all([
+          loaders.userSubscribedTo.load(id),
+          loaders.userSubscribedTo.load(args.with),
+        ]);
+        const otherIds = new Set(other.map((user) => user.id));
+        return own.filter((user) => otherIds.has(user.id));
+      },
+    },
+    subscribedToUserConnection: {
+      type: new GraphQLNonNull(UserConnectionType),
+      args: connectionArgs,
+      resolve: async ({ id }, args: ConnectionArgs, { loaders }) =>
+        paginate(await loaders.subscribedToUser.load(id), args),
+    },
+  }),
+});
+
+export const UserConnectionType = createConnectionType(UserType);
@@ -7,7 +7,7 @@ import {
 } from './schemas.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
-  const { prisma, httpErrors } = fastify;
+  const { prisma, pubsub, postQuota, policy, softDelete, httpErrors } = fastify;
 
   fastify.route({
     url: '/',
@@ -55,9 +55,10 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
-      return prisma.post.create({
-        data: req.body,
-      });
+      await policy.assertPostAuthor(req.viewer, req.body);
+      const post = await postQuota.createPost(req.body);
+      pubsub.publish('postCreated', post);
+      return post;
     },
   });
 
@@ -71,6 +72,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
+      await policy.assertPostAuthor(req.viewer, { id: req.params.postId });
       return prisma.post.update({
         where: { id: req.params.postId },
         data: req.body,
@@ -88,12 +90,25 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req, reply) {
+      await policy.assertPostAuthor(req.viewer, { id: req.params.postId });
       void reply.code(204);
-      await prisma.post.delete({
-        where: {
-          id: req.params.postId,
-        },
-      });
+      await softDelete.deletePost(req.params.postId);
+    },
+  });
+
+  fastify.route({
+    url: '/:postId/restore',
+    method: 'POST',
+    schema: {
+      ...getPostByIdSchema,
+      response: {
+        200: postSchema,
+      },
+    },
+    async handler(req) {
+      const post = await softDelete.findDeletedPost(req.params.postId);
+      await policy.assertPostAuthor(req.viewer, post);
+      return softDelete.restorePost(post.id);
     },
   });
 };
@@ -7,6 +7,10 @@ export const postFields = {
   }),
   title: Type.String(),
   content: Type.String(),
+  createdAt: Type.Unsafe<Date>({
+    type: 'string',
+    format: 'date-time',
+  }),
   authorId: userFields.id,
 };
 
@@ -7,7 +7,7 @@ import {
 } from './schemas.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
-  const { prisma, httpErrors } = fastify;
+  const { prisma, policy, httpErrors } = fastify;
 
   fastify.route({
     url: '/',
@@ -55,6 +55,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
+      await policy.assertProfileOwner(req.viewer, req.body);
       return prisma.profile.create({
         data: req.body,
       });
@@ -71,6 +72,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
+      await policy.assertProfileChange(req.viewer, req.params.profileId, req.body);
       return prisma.profile.update({
         where: { id: req.params.profileId },
         data: req.body,
@@ -88,6 +90,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req, reply) {
+      await policy.assertProfileOwner(req.viewer, { id: req.params.profileId });
       void reply.code(204);
       await prisma.profile.delete({
         where: {
@@ -0,0 +1,28 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { SearchEntity, searchHitSchema, searchSchema } from './schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { search } = fastify;
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...searchSchema,
+      response: {
+        200: Type.Array(searchHitSchema),
+      },
+    },
+    async handler(req) {
+      const { q, types, limit, offset } = req.query;
+      return search.search({
+        text: q,
+        types: types as SearchEntity[] | undefined,
+        limit,
+        offset,
+      });
+    },
+  });
+};
+
+export default plugin;
@@ -0,0 +1,53 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { userSchema } from '../users/schemas.js';
+import { postSchema } from '../posts/schemas.js';
+
+export enum SearchEntity {
+  USER = 'User',
+  POST = 'Post',
+}
+
+export const MAX_SEARCH_LIMIT = 100;
+
+export const searchHitFields = {
+  entity: Type.String({
+    pattern: Object.values(SearchEntity).join('|'),
+  }),
+  id: Type.String({
+    format: 'uuid',
+  }),
+  // Higher is better; scores are only comparable within one search.
+  score: Type.Number(),
+  // HTML with matched terms wrapped in <mark></mark>; a user's name is its title.
+  title: Type.String(),
+  snippet: Type.String(),
+  post: Type.Union([postSchema, Type.Null()]),
+  user: Type.Union([userSchema, Type.Null()]),
+};
+
+export const searchHitSchema = Type.Object({
+  ...searchHitFields,
+});
+
+export const searchSchema = {
+  querystring: Type.Object(
+    {
+      q: Type.String({
+        minLength: 1,
+      }),
+      types: Type.Optional(Type.Array(searchHitFields.entity)),
+      limit: Type.Integer({
+        minimum: 0,
+        maximum: MAX_SEARCH_LIMIT,
+        default: 20,
+      }),
+      offset: Type.Integer({
+        minimum: 0,
+        default: 0,
+      }),
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
@@ -1,17 +1,69 @@
-import { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
-import { prismaStatsSchema } from './schemas.js';
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import {
+  getPrismaStatsSchema,
+  prismaStatsSchema,
+  prismaStatsSummarySchema,
+} from './schemas.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { prismaStats, policy } = fastify;
+
+  fastify.addHook('onRequest', async (req) => policy.assertAdmin(req.viewer));
+
   fastify.route({
     url: '/prisma',
     method: 'GET',
+    config: {
+      excludeFromPrismaStats: true,
+    },
     schema: {
+      ...getPrismaStatsSchema,
       response: {
         200: prismaStatsSchema,
       },
     },
+    async handler(req) {
+      const { requestId } = req.query;
+      const { operationHistory } = prismaStats;
+      return {
+        operationHistory:
+          requestId === undefined
+            ? operationHistory
+            : operationHistory.filter((operation) => operation.requestId === requestId),
+      };
+    },
+  });
+
+  fastify.route({
+    url: '/prisma/summary',
+    method: 'GET',
+    config: {
+      excludeFromPrismaStats: true,
+    },
+    schema: {
+      response: {
+        200: prismaStatsSummarySchema,
+      },
+    },
     async handler() {
-      return fastify.prismaStats;
+      return prismaStats.summarize();
+    },
+  });
+
+  fastify.route({
+    url: '/prisma',
+    method: 'DELETE',
+    config: {
+      excludeFromPrismaStats: true,
+    },
+    schema: {
+      response: {
+        204: Type.Void(),
+      },
+    },
+    async handler(_req, reply) {
+      void reply.code(204);
+      prismaStats.reset();
     },
   });
 };
@@ -1,11 +1,41 @@
 import { Type } from '@fastify/type-provider-typebox';
 
+export const prismaOperationSchema = Type.Object({
+  model: Type.String(),
+  operation: Type.String(),
+  args: Type.Any(),
+  requestId: Type.Union([Type.String(), Type.Null()]),
+  durationMs: Type.Number(),
+  success: Type.Boolean(),
+  errorCode: Type.Union([Type.String(), Type.Null()]),
+});
+
 export const prismaStatsSchema = Type.Object({
-  operationHistory: Type.Array(
+  operationHistory: Type.Array(prismaOperationSchema),
+});
+
+export const prismaStatsSummarySchema = Type.Object({
+  size: Type.Integer(),
+  capacity: Type.Integer(),
+  operations: Type.Array(
     Type.Object({
       model: Type.String(),
       operation: Type.String(),
-      args: Type.Any(),
+      count: Type.Integer(),
+      errorCount: Type.Integer(),
+      p50Ms: Type.Number(),
+      p95Ms: Type.Number(),
     }),
   ),
 });
+
+export const getPrismaStatsSchema = {
+  querystring: Type.Object(
+    {
+      requestId: Type.Optional(Type.String()),
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
@@ -0,0 +1,33 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { feedPageSchema, getFeedByUserIdSchema } from './schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { feed, policy, httpErrors } = fastify;
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getFeedByUserIdSchema,
+      response: {
+        200: feedPageSchema,
+        404: Type.Null(),
+      },
+    },
+    async handler(req) {
+      const { since, after, limit } = req.query;
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
+      const page = await feed.findPage(req.params.userId, {
+        since: since === undefined ? undefined : new Date(since),
+        after,
+        limit,
+      });
+      if (page === null) {
+        throw httpErrors.notFound();
+      }
+      return page;
+    },
+  });
+};
+
+export default plugin;
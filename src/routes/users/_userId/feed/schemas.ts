@@ -0,0 +1,35 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { userFields } from '../../schemas.js';
+import { postFields, postSchema } from '../../../posts/schemas.js';
+
+export const feedPageSchema = Type.Object({
+  posts: Type.Array(postSchema),
+  // Passed as `after` to fetch the next, older page; `null` on the last page.
+  nextCursor: Type.Union([postFields.id, Type.Null()]),
+});
+
+export const getFeedByUserIdSchema = {
+  params: Type.Object(
+    {
+      userId: userFields.id,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+  querystring: Type.Object(
+    {
+      // Only posts created after this moment, for polling with the newest `createdAt` seen.
+      since: Type.Optional(postFields.createdAt),
+      after: Type.Optional(postFields.id),
+      limit: Type.Integer({
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+      }),
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
@@ -0,0 +1,27 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { getPostQuotaByUserIdSchema, postQuotaSchema } from './schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { postQuota, httpErrors } = fastify;
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getPostQuotaByUserIdSchema,
+      response: {
+        200: postQuotaSchema,
+        404: Type.Null(),
+      },
+    },
+    async handler(req) {
+      const quota = await postQuota.getQuota(req.params.userId);
+      if (quota === null) {
+        throw httpErrors.notFound();
+      }
+      return quota;
+    },
+  });
+};
+
+export default plugin;
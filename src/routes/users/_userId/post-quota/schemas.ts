@@ -0,0 +1,23 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { userFields } from '../../schemas.js';
+
+export const postQuotaSchema = Type.Object({
+  limit: Type.Union([Type.Integer(), Type.Null()]),
+  used: Type.Integer(),
+  remaining: Type.Union([Type.Integer(), Type.Null()]),
+  resetsAt: Type.Unsafe<Date>({
+    type: 'string',
+    format: 'date-time',
+  }),
+});
+
+export const getPostQuotaByUserIdSchema = {
+  params: Type.Object(
+    {
+      userId: userFields.id,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
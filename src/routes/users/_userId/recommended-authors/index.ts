@@ -0,0 +1,30 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import { getRecommendedAuthorsSchema, recommendedAuthorSchema } from './schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { recommendations, httpErrors } = fastify;
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getRecommendedAuthorsSchema,
+      response: {
+        200: Type.Array(recommendedAuthorSchema),
+        404: Type.Null(),
+      },
+    },
+    async handler(req) {
+      const authors = await recommendations.recommendAuthors(
+        req.params.userId,
+        req.query.limit,
+      );
+      if (authors === null) {
+        throw httpErrors.notFound();
+      }
+      return authors;
+    },
+  });
+};
+
+export default plugin;
@@ -0,0 +1,31 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { getUserByIdSchema, userSchema } from '../../schemas.js';
+
+export const MAX_RECOMMENDATIONS = 50;
+
+export const recommendedAuthorSchema = Type.Object({
+  user: userSchema,
+  score: Type.Number(),
+  // Followed users of the user who follow this author.
+  followedByFollowing: Type.Integer(),
+  // Subscribers of the user who also follow this author.
+  sharedSubscribers: Type.Integer(),
+  recentPosts: Type.Integer(),
+  explanation: Type.String(),
+});
+
+export const getRecommendedAuthorsSchema = {
+  params: getUserByIdSchema.params,
+  querystring: Type.Object(
+    {
+      limit: Type.Integer({
+        minimum: 1,
+        maximum: MAX_RECOMMENDATIONS,
+        default: 10,
+      }),
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
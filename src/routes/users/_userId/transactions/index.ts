@@ -0,0 +1,121 @@
+import { FastifyPluginAsyncTypebox, Type } from '@fastify/type-provider-typebox';
+import {
+  balanceReconciliationSchema,
+  createChargeSchema,
+  createDepositSchema,
+  createTransferSchema,
+  getTransactionsByUserIdSchema,
+  transactionSchema,
+} from './schemas.js';
+
+const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
+  const { prisma, ledger, policy, httpErrors } = fastify;
+
+  fastify.route({
+    url: '/',
+    method: 'GET',
+    schema: {
+      ...getTransactionsByUserIdSchema,
+      response: {
+        200: Type.Array(transactionSchema),
+      },
+    },
+    async handler(req) {
+      const { userId } = req.params;
+      policy.assertOwnerOrAdmin(req.viewer, userId);
+      return prisma.transaction.findMany({
+        where: {
+          OR: [{ senderId: userId }, { recipientId: userId }],
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      });
+    },
+  });
+
+  fastify.route({
+    url: '/transfer',
+    method: 'POST',
+    schema: {
+      ...createTransferSchema,
+      response: {
+        200: transactionSchema,
+      },
+    },
+    async handler(req) {
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
+      return ledger.transfer(req.params.userId, req.body.recipientId, req.body.amount);
+    },
+  });
+
+  fastify.route({
+    url: '/charge',
+    method: 'POST',
+    schema: {
+      ...createChargeSchema,
+      response: {
+        200: transactionSchema,
+      },
+    },
+    async handler(req) {
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
+      return ledger.charge(req.params.userId, req.body.amount);
+    },
+  });
+
+  fastify.route({
+    url: '/deposit',
+    method: 'POST',
+    schema: {
+      ...createDepositSchema,
+      response: {
+        200: transactionSchema,
+      },
+    },
+    async handler(req) {
+      policy.assertAdmin(req.viewer);
+      return ledger.deposit(req.params.userId, req.body.amount);
+    },
+  });
+
+  fastify.route({
+    url: '/reconciliation',
+    method: 'GET',
+    schema: {
+      ...getTransactionsByUserIdSchema,
+      response: {
+        200: balanceReconciliationSchema,
+        404: Type.Null(),
+      },
+    },
+    async handler(req) {
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
+      const reconciliation = await ledger.reconcile(req.params.userId);
+      if (reconciliation === null) {
+        throw httpErrors.notFound();
+      }
+      return reconciliation;
+    },
+  });
+
+  fastify.route({
+    url: '/reconciliation',
+    method: 'POST',
+    schema: {
+      ...getTransactionsByUserIdSchema,
+      response: {
+        200: balanceReconciliationSchema,
+        404: Type.Null(),
+      },
+    },
+    async handler(req) {
+      policy.assertAdmin(req.viewer);
+      const reconciliation = await ledger.reconcile(req.params.userId, { fix: true });
+      if (reconciliation === null) {
+        throw httpErrors.notFound();
+      }
+      return reconciliation;
+    },
+  });
+};
+
+export default plugin;
@@ -0,0 +1,76 @@
+import { Type } from '@fastify/type-provider-typebox';
+import { userFields } from '../../schemas.js';
+
+export enum TransactionKind {
+  DEPOSIT = 'deposit',
+  TRANSFER = 'transfer',
+  CHARGE = 'charge',
+}
+
+export const transactionFields = {
+  id: Type.String({
+    format: 'uuid',
+  }),
+  kind: Type.String({
+    pattern: Object.values(TransactionKind).join('|'),
+  }),
+  amount: Type.Number({
+    exclusiveMinimum: 0,
+  }),
+  discount: Type.Number(),
+  createdAt: Type.Unsafe<Date>({
+    type: 'string',
+    format: 'date-time',
+  }),
+  senderId: Type.Union([userFields.id, Type.Null()]),
+  recipientId: Type.Union([userFields.id, Type.Null()]),
+};
+
+export const transactionSchema = Type.Object({
+  ...transactionFields,
+});
+
+export const balanceReconciliationSchema = Type.Object({
+  balance: userFields.balance,
+  ledgerBalance: userFields.balance,
+  difference: Type.Number(),
+});
+
+export const getTransactionsByUserIdSchema = {
+  params: Type.Object(
+    {
+      userId: userFields.id,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
+
+export const createTransferSchema = {
+  params: getTransactionsByUserIdSchema.params,
+  body: Type.Object(
+    {
+      recipientId: userFields.id,
+      amount: transactionFields.amount,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
+
+export const createChargeSchema = {
+  params: getTransactionsByUserIdSchema.params,
+  body: Type.Object(
+    {
+      amount: transactionFields.amount,
+    },
+    {
+      additionalProperties: false,
+    },
+  ),
+};
+
+// Deposits bring money in from outside the platform, see `Ledger.deposit`.
+export const createDepositSchema = createChargeSchema;
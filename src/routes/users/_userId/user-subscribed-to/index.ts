@@ -3,7 +3,7 @@ import { subscribeToUserSchema, unsubscribeFromUserSchema } from './schemas.js';
 import { getUserByIdSchema, userSchema } from '../../schemas.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
-  const { prisma } = fastify;
+  const { prisma, pubsub, policy } = fastify;
 
   fastify.route({
     url: '/',
@@ -37,18 +37,18 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
-      return prisma.user.update({
-        where: {
-          id: req.params.userId,
-        },
+      await policy.assertSubscriber(req.viewer, req.params.userId);
+      const { subscriber } = await prisma.subscribersOnAuthors.create({
         data: {
-          userSubscribedTo: {
-            create: {
-              authorId: req.body.authorId,
-            },
-          },
+          subscriberId: req.params.userId,
+          authorId: req.body.authorId,
+        },
+        include: {
+          subscriber: true,
         },
       });
+      pubsub.publish('userSubscribed', { subscriber, authorId: req.body.authorId });
+      return subscriber;
     },
   });
 
@@ -62,6 +62,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req, reply) {
+      await policy.assertSubscriber(req.viewer, req.params.userId);
       void reply.code(204);
       await prisma.subscribersOnAuthors.delete({
         where: {
@@ -71,6 +72,10 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
           },
         },
       });
+      pubsub.publish('userUnsubscribed', {
+        subscriberId: req.params.userId,
+        authorId: req.params.authorId,
+      });
     },
   });
 };
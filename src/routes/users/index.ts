@@ -7,7 +7,7 @@ import {
 } from './schemas.js';
 
 const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
-  const { prisma, httpErrors } = fastify;
+  const { prisma, ledger, authenticator, policy, softDelete, httpErrors } = fastify;
 
   fastify.route({
     url: '/',
@@ -55,9 +55,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
-      return prisma.user.create({
-        data: req.body,
-      });
+      return ledger.createUser(await authenticator.withPasswordHash(req.body));
     },
   });
 
@@ -71,12 +69,25 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req, reply) {
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
       void reply.code(204);
-      await prisma.user.delete({
-        where: {
-          id: req.params.userId,
-        },
-      });
+      await softDelete.deleteUser(req.params.userId);
+    },
+  });
+
+  // Deleted users cannot log in, so restoring an account is up to an administrator.
+  fastify.route({
+    url: '/:userId/restore',
+    method: 'POST',
+    schema: {
+      ...getUserByIdSchema,
+      response: {
+        200: userSchema,
+      },
+    },
+    async handler(req) {
+      policy.assertAdmin(req.viewer);
+      return softDelete.restoreUser(req.params.userId);
     },
   });
 
@@ -90,6 +101,7 @@ const plugin: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async handler(req) {
+      policy.assertOwnerOrAdmin(req.viewer, req.params.userId);
       return prisma.user.update({
         where: { id: req.params.userId },
         data: req.body,
@@ -8,6 +8,11 @@ export const userFields = {
   balance: Type.Number(),
 };
 
+// Only ever accepted, never returned; users store a hash of it.
+export const passwordSchema = Type.String({
+  minLength: 8,
+});
+
 export const userSchema = Type.Object({
   ...userFields,
 });
@@ -27,7 +32,7 @@ export const createUserSchema = {
   body: Type.Object(
     {
       name: userFields.name,
-      balance: userFields.balance,
+      password: Type.Optional(passwordSchema),
     },
     {
       additionalProperties: false,
@@ -35,12 +40,12 @@ export const createUserSchema = {
   ),
 };
 
+// The balance only changes through the ledger, see `transactions`.
 export const changeUserByIdSchema = {
   params: getUserByIdSchema.params,
   body: Type.Partial(
     Type.Object({
       name: userFields.name,
-      balance: userFields.balance,
     }),
     {
       additionalProperties: false,
@@ -1,3 +1,4 @@
+import { randomBytes } from 'node:crypto';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 import { FastifyInstance } from 'fastify';
@@ -12,15 +13,67 @@ export type Test = (typeof tap)['Test']['prototype'];
 
 const AppPath = join(__dirname, '..', 'dist', 'app.js');
 
+// Apps built by one test file share the secret, so tokens stay valid across them.
+process.env.JWT_SECRET ??= randomBytes(32).toString('hex');
+
 function config() {
   return {};
 }
 
-async function build(t: Test) {
+let testAdmin: Promise<{ id: string; token: string }> | undefined;
+
+// Every app trusts this administrator besides its own `ADMIN_USER_IDS`, so the
+// request helpers can reach the maintenance routes. It signs up through an app of
+// its own, since the others need its id when they are built.
+function getTestAdmin() {
+  testAdmin ??= (async () => {
+    const app = (await helper.build([AppPath], config())) as FastifyInstance;
+    try {
+      const password = 'test-admin-password';
+      const userRes = await app.inject({
+        url: '/users',
+        method: 'POST',
+        payload: { name: 'Test admin', password },
+      });
+      const { id } = userRes.json<{ id: string }>();
+      const loginRes = await app.inject({
+        url: '/auth/login',
+        method: 'POST',
+        payload: { userId: id, password },
+      });
+      return { id, token: loginRes.json<{ token: string }>().token };
+    } finally {
+      await app.close();
+    }
+  })();
+  return testAdmin;
+}
+
+// `overrides` configure this app only, e.g. its `ADMIN_USER_IDS`.
+async function build(t: Test, overrides: Record<string, string> = {}) {
   const argv = [AppPath];
-  const app = (await helper.build(argv, config())) as FastifyInstance;
-  t.teardown(() => app.close());
-  return app;
+  const { id: testAdminId } = await getTestAdmin();
+  const env = {
+    ...overrides,
+    ADMIN_USER_IDS: [overrides.ADMIN_USER_IDS, testAdminId].filter(Boolean).join(','),
+  };
+  const previous = Object.fromEntries(
+    Object.keys(env).map((name) => [name, process.env[name]]),
+  );
+  Object.assign(process.env, env);
+  try {
+    const app = (await helper.build(argv, config())) as FastifyInstance;
+    t.teardown(() => app.close());
+    return app;
+  } finally {
+    Object.entries(previous).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  }
 }
 
-export { config, build };
+export { config, build, getTestAdmin };
@@ -0,0 +1,135 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createUser,
+  deposit,
+  getAuditLog,
+  gqlQuery,
+  subscribeTo,
+  tokenOf,
+  transfer,
+} from '../utils/requests.js';
+
+await test('audit', async (t) => {
+  const app = await build(t);
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+  const adminToken = tokenOf(admin.id);
+
+  await t.test('Record who changed which fields, and where.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await deposit(adminApp, user1.id, 100, adminToken);
+    await transfer(app, user1.id, user2.id, 40);
+
+    const { res, body: logs } = await getAuditLog(
+      adminApp,
+      { entity: 'User', entityId: user1.id },
+      adminToken,
+    );
+    t.ok(res.statusCode === 200);
+    t.ok(logs.length === 3);
+
+    const [update, depositUpdate, create] = logs;
+    t.ok(create.action === 'create');
+    t.ok(create.source === 'POST /users');
+    t.ok(depositUpdate.actorId === admin.id);
+    t.ok(update.action === 'update');
+    t.ok(update.actorId === user1.id);
+    t.ok(update.source === 'POST /users/:userId/transactions/transfer');
+    t.same(update.changes.balance, { before: 100, after: 60 });
+    t.same(Object.keys(update.changes), ['balance']);
+  });
+
+  await t.test('Name subscriptions by subscriber and author.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+
+    const { body: logs } = await getAuditLog(
+      adminApp,
+      { entity: 'SubscribersOnAuthors', entityId: `${user1.id}:${user2.id}` },
+      adminToken,
+    );
+    t.ok(logs.length === 1);
+    t.ok(logs[0].action === 'create');
+  });
+
+  await t.test('List the audit log of a type over GraphQL.', async (t) => {
+    const {
+      body: { data, errors },
+    } = await gqlQuery(app, {
+      query: `mutation ChangeName($dto: CreateUserInput!) {
+        createUser(dto: $dto) {
+            id
+        }
+    }`,
+      variables: { dto: { name: 'before' } },
+    });
+    t.ok(!errors);
+    const { id } = data.createUser;
+
+    const {
+      body: { data: userData, errors: userErrors },
+    } = await gqlQuery(
+      adminApp,
+      {
+        query: `query ($id: UUID!) {
+        user(id: $id) {
+            auditLog {
+              action
+              source
+              changes {
+                field
+                after
+              }
+            }
+        }
+    }`,
+        variables: { id },
+      },
+      authHeaders(admin.id),
+    );
+    t.ok(!userErrors);
+    const [create] = userData.user.auditLog;
+    t.ok(create.action === 'create');
+    t.ok(create.source === 'GraphQL mutation ChangeName');
+    t.ok(
+      create.changes.some(
+        ({ field, after }) => field === 'name' && after === JSON.stringify('before'),
+      ),
+    );
+  });
+
+  await t.test('Show the audit log to administrators only.', async (t) => {
+    const { body: user1 } = await createUser(app);
+
+    const { res: anonymousRes } = await getAuditLog(adminApp, { entityId: user1.id });
+    t.ok(anonymousRes.statusCode === 401);
+    const { res: forbiddenRes } = await getAuditLog(
+      adminApp,
+      { entityId: user1.id },
+      tokenOf(user1.id),
+    );
+    t.ok(forbiddenRes.statusCode === 403);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(
+      adminApp,
+      {
+        query: `query ($id: UUID!) {
+        user(id: $id) {
+            auditLog {
+              action
+            }
+        }
+    }`,
+        variables: { id: user1.id },
+      },
+      authHeaders(user1.id),
+    );
+    t.ok(errors?.[0].extensions.code === 'FORBIDDEN');
+  });
+});
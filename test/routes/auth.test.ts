@@ -0,0 +1,124 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  createPost,
+  createUser,
+  getMe,
+  gqlGetQuery,
+  gqlQuery,
+  login,
+  tokenOf,
+} from '../utils/requests.js';
+import { genCreateUserDto } from '../utils/fake.js';
+
+await test('auth', async (t) => {
+  const app = await build(t);
+  const password = 'correct horse battery staple';
+
+  await t.test('Reject short passwords over REST and GraphQL.', async (t) => {
+    const { res } = await createUser(app, { ...genCreateUserDto(), password: 'a' });
+    t.ok(res.statusCode === 400);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `mutation ($dto: CreateUserInput!) {
+        createUser(dto: $dto) {
+            id
+        }
+    }`,
+      variables: { dto: { ...genCreateUserDto(), password: 'a' } },
+    });
+    t.ok(errors?.[0].extensions.code === 'BAD_USER_INPUT');
+    t.ok((errors?.[0].message as string).includes('at least 8 characters'));
+  });
+
+  await t.test('Log in and act as the viewer.', async (t) => {
+    const { body: user1 } = await createUser(app, { ...genCreateUserDto(), password });
+    await createPost(app, user1.id);
+
+    const { res, body: token } = await login(app, user1.id, password);
+    t.ok(res.statusCode === 200);
+    t.ok(token.tokenType === 'Bearer');
+
+    const { body: me } = await getMe(app, token.token);
+    t.ok(me.id === user1.id);
+
+    const {
+      body: { data, errors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `query {
+        me {
+            id
+            profile {
+              id
+            }
+            posts {
+              authorId
+            }
+        }
+    }`,
+      },
+      { authorization: `Bearer ${token.token}` },
+    );
+    t.ok(!errors);
+    t.ok(data.me.id === user1.id);
+    t.ok(data.me.posts.length === 1);
+  });
+
+  await t.test('Reject bad credentials and tokens.', async (t) => {
+    const { body: user1 } = await createUser(app, { ...genCreateUserDto(), password });
+    const { body: user2 } = await createUser(app);
+
+    const { res: wrongPasswordRes } = await login(app, user1.id, `${password}!`);
+    t.ok(wrongPasswordRes.statusCode === 401);
+    const { res: noPasswordRes } = await login(app, user2.id, password);
+    t.ok(noPasswordRes.statusCode === 401);
+
+    const { res: anonymousRes } = await getMe(app);
+    t.ok(anonymousRes.statusCode === 401);
+    const { res: invalidTokenRes } = await getMe(app, 'invalid');
+    t.ok(invalidTokenRes.statusCode === 401);
+
+    const {
+      body: { data },
+    } = await gqlQuery(app, {
+      query: `query {
+        me {
+            id
+        }
+    }`,
+    });
+    t.ok(data.me === null);
+  });
+
+  await t.test('Keep answers for a viewer out of shared caches.', async (t) => {
+    const { body: user1 } = await createUser(app);
+
+    const { res: publicRes } = await gqlGetQuery(app, {
+      query: `query ($id: UUID!) { user(id: $id) { id } }`,
+      variables: JSON.stringify({ id: user1.id }),
+    });
+    t.ok(String(publicRes.headers['cache-control']).startsWith('public'));
+    t.ok(publicRes.headers['vary'] === 'Authorization');
+
+    const { res: viewerRes } = await gqlGetQuery(
+      app,
+      {
+        query: `query ($id: UUID!) { user(id: $id) { id } }`,
+        variables: JSON.stringify({ id: user1.id }),
+      },
+      { authorization: `Bearer ${tokenOf(user1.id)}` },
+    );
+    t.ok(viewerRes.headers['cache-control'] === 'private, no-store');
+    t.ok(viewerRes.headers['etag'] === undefined);
+
+    const { res: scopedRes } = await gqlGetQuery(app, {
+      query: `query ($id: UUID!) { user(id: $id) { postQuota { used } } }`,
+      variables: JSON.stringify({ id: user1.id }),
+    });
+    t.ok(scopedRes.headers['cache-control'] === 'private, no-store');
+  });
+});
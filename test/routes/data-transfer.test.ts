@@ -0,0 +1,156 @@
+import { randomUUID } from 'node:crypto';
+import { test } from 'tap';
+import { FormatRegistry, TypeRegistry } from '@sinclair/typebox';
+import { build } from '../helper.js';
+import type { ImportReport } from '../../src/plugins/data-transfer.js';
+import {
+  createPost,
+  createUser,
+  exportData,
+  getBalanceReconciliation,
+  getPost,
+  getUser,
+  importData,
+  subscribeTo,
+  tokenOf,
+} from '../utils/requests.js';
+
+await test('data-transfer', async (t) => {
+  const app = await build(t);
+  // Only administrators move data; both apps share the database.
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+  const adminToken = tokenOf(admin.id);
+
+  await t.test('Export every model as NDJSON, referenced rows first.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+    await subscribeTo(app, user2.id, user1.id);
+
+    const { res } = await exportData(adminApp, adminToken);
+    t.ok(res.statusCode === 200);
+    t.ok(String(res.headers['content-type']).startsWith('application/x-ndjson'));
+    const lines = res.body
+      .trim()
+      .split('\n')
+      .map(
+        (line) => JSON.parse(line) as { model: string; data: Record<string, unknown> },
+      );
+    const indexOf = (model: string, match: (data: Record<string, unknown>) => boolean) =>
+      lines.findIndex((line) => line.model === model && match(line.data));
+
+    const userIndex = indexOf('User', ({ id }) => id === user1.id);
+    const postIndex = indexOf('Post', ({ id }) => id === post1.id);
+    const subscriptionIndex = indexOf(
+      'SubscribersOnAuthors',
+      ({ subscriberId, authorId }) => subscriberId === user2.id && authorId === user1.id,
+    );
+    t.ok(indexOf('MemberType', ({ id }) => id === 'basic') >= 0);
+    t.ok(userIndex >= 0 && userIndex < postIndex && postIndex < subscriptionIndex);
+    t.ok(!('passwordHash' in lines[userIndex].data));
+  });
+
+  await t.test('Import by id and report invalid lines.', async (t) => {
+    const userId = randomUUID();
+    const postId = randomUUID();
+    const ndjson = [
+      { model: 'User', data: { id: userId, name: 'Imported', balance: 50 } },
+      {
+        model: 'Post',
+        data: {
+          id: postId,
+          title: 'Imported',
+          content: 'Imported',
+          createdAt: '2026-01-01T00:00:00.000Z',
+          authorId: userId,
+        },
+      },
+      { model: 'Post', data: { id: randomUUID(), title: 'No content' } },
+      { model: 'Transaction', data: {} },
+    ]
+      .map((line) => JSON.stringify(line))
+      .concat('{')
+      .join('\n');
+
+    const { res } = await importData(adminApp, ndjson, adminToken);
+    t.ok(res.statusCode === 200);
+    const report = res.json<ImportReport>();
+    t.ok(report.lines === 5);
+    t.ok(report.imported === 2);
+    t.same(
+      report.errors.map(({ line }) => line),
+      [3, 4, 5],
+    );
+
+    const { res: againRes } = await importData(adminApp, ndjson, adminToken);
+    t.ok(againRes.json<ImportReport>().imported === 2);
+    // TypeBox's registries are left as they were.
+    t.ok(!TypeRegistry.Has('Unsafe'));
+    t.ok(!FormatRegistry.Has('uuid'));
+
+    const { body: user } = await getUser(app, userId);
+    const { body: post } = await getPost(app, postId);
+    t.ok(user.balance === 50);
+    t.ok(post.authorId === userId);
+    const { body: reconciliation } = await getBalanceReconciliation(
+      adminApp,
+      userId,
+      adminToken,
+    );
+    t.ok(reconciliation.difference === 0);
+  });
+
+  await t.test('Keep the rest of a chunk when a line fails to write.', async (t) => {
+    const userId = randomUUID();
+    const postId = randomUUID();
+    const ndjson = [
+      {
+        model: 'Post',
+        data: {
+          id: randomUUID(),
+          title: 'Orphan',
+          content: 'Orphan',
+          createdAt: '2026-01-01T00:00:00.000Z',
+          authorId: randomUUID(),
+        },
+      },
+      { model: 'User', data: { id: userId, name: 'After orphan', balance: 0 } },
+      {
+        model: 'Post',
+        data: {
+          id: postId,
+          title: 'After orphan',
+          content: 'After orphan',
+          createdAt: '2026-01-01T00:00:00.000Z',
+          authorId: userId,
+        },
+      },
+    ]
+      .map((line) => JSON.stringify(line))
+      .join('\n');
+
+    const { res } = await importData(adminApp, ndjson, adminToken);
+    t.ok(res.statusCode === 200);
+    const report = res.json<ImportReport>();
+    t.ok(report.imported === 2);
+    t.same(
+      report.errors.map(({ line }) => line),
+      [1],
+    );
+
+    const { res: userRes } = await getUser(app, userId);
+    const { res: postRes } = await getPost(app, postId);
+    t.ok(userRes.statusCode === 200);
+    t.ok(postRes.statusCode === 200);
+  });
+
+  await t.test('Leave export and import to administrators.', async (t) => {
+    const { res: exportRes } = await exportData(app);
+    t.ok(exportRes.statusCode === 401);
+    const { res: importRes } = await importData(app, '');
+    t.ok(importRes.statusCode === 401);
+    const { res: userRes } = await exportData(app, adminToken);
+    t.ok(userRes.statusCode === 403);
+  });
+});
@@ -0,0 +1,170 @@
+import { randomUUID } from 'node:crypto';
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createPost,
+  createUser,
+  getFeed,
+  getPrismaStats,
+  gqlQuery,
+  importData,
+  subscribeTo,
+  tokenOf,
+} from '../utils/requests.js';
+
+const feedQuery = `query ($userId: UUID!) {
+    feed(userId: $userId, first: 10) {
+        edges {
+          node {
+            id
+            authorId
+          }
+        }
+        pageInfo {
+          hasNextPage
+        }
+    }
+}`;
+
+await test('feed', async (t) => {
+  const app = await build(t);
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+  const adminToken = tokenOf(admin.id);
+
+  await t.test('List posts of followed authors, newest first.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    const { body: user4 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+    await subscribeTo(app, user1.id, user3.id);
+    const { body: post1 } = await createPost(app, user2.id);
+    const { body: post2 } = await createPost(app, user3.id);
+    const { body: post3 } = await createPost(app, user2.id);
+    await createPost(app, user4.id);
+
+    const { res, body: page } = await getFeed(app, user1.id);
+    t.ok(res.statusCode === 200);
+    t.same(
+      page.posts.map(({ id }) => id),
+      [post3.id, post2.id, post1.id],
+    );
+    t.ok(page.nextCursor === null);
+
+    const { body: page1 } = await getFeed(app, user1.id, { limit: '2' });
+    t.ok(page1.posts.length === 2);
+    t.ok(page1.nextCursor === post2.id);
+    const { body: page2 } = await getFeed(app, user1.id, {
+      limit: '2',
+      after: page1.nextCursor ?? undefined,
+    });
+    t.same(
+      page2.posts.map(({ id }) => id),
+      [post1.id],
+    );
+
+    const { body: polled } = await getFeed(app, user1.id, {
+      since: String(post2.createdAt),
+    });
+    t.same(
+      polled.posts.map(({ id }) => id),
+      [post3.id],
+    );
+
+    const { res: unknownRes } = await getFeed(adminApp, randomUUID(), {}, adminToken);
+    t.ok(unknownRes.statusCode === 404);
+  });
+
+  await t.test('Show a feed to its user or an administrator.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+
+    const { res: anonymousRes } = await getFeed(app, user1.id, {}, null);
+    const { res: otherRes } = await getFeed(app, user1.id, {}, tokenOf(user2.id));
+    const { res: adminRes } = await getFeed(adminApp, user1.id, {}, adminToken);
+    t.ok(anonymousRes.statusCode === 401);
+    t.ok(otherRes.statusCode === 403);
+    t.ok(adminRes.statusCode === 200);
+
+    const variables = { userId: user1.id };
+    const {
+      body: { errors: anonymousErrors },
+    } = await gqlQuery(app, { query: feedQuery, variables });
+    const {
+      body: { errors: otherErrors },
+    } = await gqlQuery(app, { query: feedQuery, variables }, authHeaders(user2.id));
+    const {
+      body: { errors: adminErrors },
+    } = await gqlQuery(adminApp, { query: feedQuery, variables }, authHeaders(admin.id));
+    t.ok(anonymousErrors?.[0].extensions.code === 'UNAUTHENTICATED');
+    t.ok(otherErrors?.[0].extensions.code === 'FORBIDDEN');
+    t.ok(!adminErrors);
+  });
+
+  await t.test(
+    'Order posts of the same moment alike over REST and GraphQL.',
+    async (t) => {
+      const { body: user1 } = await createUser(app);
+      const { body: author } = await createUser(app);
+      await subscribeTo(app, user1.id, author.id);
+      // Only an import sets `createdAt`, which makes posts of the same millisecond certain.
+      const ndjson = Array.from({ length: 3 }, () =>
+        JSON.stringify({
+          model: 'Post',
+          data: {
+            id: randomUUID(),
+            title: 'Same moment',
+            content: 'Same moment',
+            createdAt: '2026-01-01T00:00:00.000Z',
+            authorId: author.id,
+          },
+        }),
+      ).join('\n');
+      await importData(adminApp, ndjson, adminToken);
+
+      const { body: page } = await getFeed(app, user1.id);
+      const {
+        body: { data },
+      } = await gqlQuery(
+        app,
+        { query: feedQuery, variables: { userId: user1.id } },
+        authHeaders(user1.id),
+      );
+      const restIds = page.posts.map(({ id }) => id);
+      t.ok(restIds.length === 3);
+      t.same(
+        data.feed.edges.map(({ node }: { node: { id: string } }) => node.id),
+        restIds,
+      );
+      t.same(restIds, [...restIds].sort());
+    },
+  );
+
+  await t.test('Fetch the feed with a single posts query.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    for (let i = 0; i < 5; i += 1) {
+      const { body: author } = await createUser(app);
+      await subscribeTo(app, user1.id, author.id);
+      await createPost(app, author.id);
+    }
+
+    const {
+      res,
+      body: { data, errors },
+    } = await gqlQuery(
+      app,
+      { query: feedQuery, variables: { userId: user1.id } },
+      authHeaders(user1.id),
+    );
+    t.ok(!errors);
+    t.ok(data.feed.edges.length === 5);
+    t.ok(data.feed.pageInfo.hasNextPage === false);
+
+    const requestId = res.headers['x-request-id'] as string;
+    const { body: stats } = await getPrismaStats(app, requestId);
+    const postQueries = stats.operationHistory.filter(({ model }) => model === 'Post');
+    t.ok(postQueries.length === 1);
+  });
+});
@@ -0,0 +1,117 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createPost,
+  createUser,
+  getPrismaStats,
+  gqlBatch,
+} from '../utils/requests.js';
+import { genCreateProfileDto } from '../utils/fake.js';
+import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
+
+await test('gql-batch', async (t) => {
+  const app = await build(t);
+
+  await t.test('Answer every operation in order.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+
+    const { res, body } = await gqlBatch(app, [
+      {
+        query: `query ($id: UUID!) { post(id: $id) { id } }`,
+        variables: { id: post1.id },
+      },
+      { query: `query { memberTypes { unknownField } }` },
+      {
+        query: `query ($id: UUID!) { user(id: $id) { id } }`,
+        variables: { id: user1.id },
+      },
+    ]);
+
+    t.ok(res.statusCode === 200);
+    t.ok(body.length === 3);
+    t.same(body[0].data, { post: { id: post1.id } });
+    t.ok(body[1].errors?.length === 1);
+    t.same(body[2].data, { user: { id: user1.id } });
+  });
+
+  await t.test('Share loaders between the queries of a batch.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    await createPost(app, user1.id);
+    const getPosts = {
+      query: `query ($id: UUID!) {
+        user(id: $id) {
+            posts {
+              id
+            }
+        }
+    }`,
+      variables: { id: user1.id },
+    };
+
+    const {
+      body: { operationHistory: beforeHistory },
+    } = await getPrismaStats(app);
+    const { body } = await gqlBatch(app, [getPosts, getPosts, getPosts]);
+    const {
+      body: { operationHistory: afterHistory },
+    } = await getPrismaStats(app);
+
+    t.ok(body.every(({ errors }) => !errors));
+    const postCalls = afterHistory
+      .slice(beforeHistory.length)
+      .filter(({ model }) => model === 'Post');
+    t.ok(postCalls.length === 1);
+  });
+
+  await t.test('Reject batches over the maximum size.', async (t) => {
+    const { res } = await gqlBatch(
+      app,
+      Array.from({ length: 11 }, () => ({ query: `query { memberTypes { id } }` })),
+    );
+    t.ok(res.statusCode === 413);
+
+    const { res: emptyRes } = await gqlBatch(app, []);
+    t.ok(emptyRes.statusCode === 400);
+  });
+
+  await t.test('Read the writes of earlier operations of a batch.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const getProfile = {
+      query: `query ($userId: UUID!) {
+        user(id: $userId) {
+            profile {
+              id
+            }
+        }
+    }`,
+      variables: { userId: user1.id },
+    };
+
+    const { res, body } = await gqlBatch(
+      app,
+      [
+        getProfile,
+        {
+          query: `mutation ($profileDto: CreateProfileInput!) {
+        createProfile(dto: $profileDto) {
+            id
+        }
+    }`,
+          variables: {
+            profileDto: genCreateProfileDto(user1.id, MemberTypeId.BASIC),
+          },
+        },
+        getProfile,
+      ],
+      authHeaders(user1.id),
+    );
+
+    t.ok(res.statusCode === 200);
+    t.ok(body.every(({ errors }) => !errors));
+    const [before, created, after] = body;
+    t.ok(before.data.user.profile === null);
+    t.ok(after.data.user.profile?.id === created.data.createProfile.id);
+  });
+});
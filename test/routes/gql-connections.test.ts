@@ -0,0 +1,147 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { createPost, createUser, gqlQuery } from '../utils/requests.js';
+
+interface Page {
+  edges: { cursor: string; node: { id: string } }[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  totalCount: number;
+}
+
+const pageFields = `edges {
+              cursor
+              node {
+                id
+              }
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              startCursor
+              endCursor
+            }
+            totalCount`;
+
+const nodeIds = (page: Page) => page.edges.map(({ node }) => node.id);
+
+await test('gql-connections', async (t) => {
+  const app = await build(t);
+
+  const { body: user1 } = await createUser(app);
+  const postIds: string[] = [];
+  for (let i = 0; i < 5; i++) {
+    const { body: post } = await createPost(app, user1.id);
+    postIds.push(post.id);
+  }
+  postIds.sort();
+
+  const getPostsPage = async (args: Record<string, unknown>) => {
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query ($authorId: UUID!, $first: Int, $after: String, $last: Int, $before: String) {
+        postsConnection(
+          where: { authorId: { equals: $authorId } }
+          first: $first
+          after: $after
+          last: $last
+          before: $before
+        ) {
+            ${pageFields}
+        }
+    }`,
+      variables: { authorId: user1.id, ...args },
+    });
+    return { errors, page: data?.postsConnection as Page };
+  };
+
+  await t.test('Page through posts forward and backward.', async (t) => {
+    const { errors, page: page1 } = await getPostsPage({ first: 2 });
+    t.ok(!errors);
+    t.same(nodeIds(page1), postIds.slice(0, 2));
+    t.ok(page1.totalCount === 5);
+    t.ok(page1.pageInfo.hasNextPage);
+    t.ok(!page1.pageInfo.hasPreviousPage);
+    t.ok(page1.pageInfo.endCursor === page1.edges[1].cursor);
+
+    const { page: page2 } = await getPostsPage({
+      first: 2,
+      after: page1.pageInfo.endCursor,
+    });
+    t.same(nodeIds(page2), postIds.slice(2, 4));
+    t.ok(page2.pageInfo.hasNextPage);
+    t.ok(page2.pageInfo.hasPreviousPage);
+
+    const { page: page3 } = await getPostsPage({
+      first: 2,
+      after: page2.pageInfo.endCursor,
+    });
+    t.same(nodeIds(page3), postIds.slice(4));
+    t.ok(!page3.pageInfo.hasNextPage);
+
+    const { page: backPage } = await getPostsPage({
+      last: 2,
+      before: page2.pageInfo.startCursor,
+    });
+    t.same(nodeIds(backPage), postIds.slice(0, 2));
+    t.ok(!backPage.pageInfo.hasPreviousPage);
+    t.ok(backPage.pageInfo.hasNextPage);
+  });
+
+  await t.test('Page through the posts of a user.', async (t) => {
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query ($id: UUID!) {
+        user(id: $id) {
+            postsConnection(last: 3) {
+              ${pageFields}
+            }
+        }
+    }`,
+      variables: { id: user1.id },
+    });
+
+    const page = data.user.postsConnection as Page;
+    t.ok(!errors);
+    t.same(nodeIds(page), postIds.slice(2));
+    t.ok(page.totalCount === 5);
+    t.ok(page.pageInfo.hasPreviousPage);
+    t.ok(!page.pageInfo.hasNextPage);
+  });
+
+  await t.test('Reject bad cursors and page sizes.', async (t) => {
+    const { errors: cursorErrors } = await getPostsPage({ first: 2, after: 'garbage' });
+    t.ok(cursorErrors?.length === 1);
+    t.ok((cursorErrors[0].message as string).startsWith('Invalid cursor'));
+
+    const { errors: directionErrors } = await getPostsPage({ first: 2, last: 2 });
+    t.ok(directionErrors?.length === 1);
+
+    const { errors: sizeErrors } = await getPostsPage({ first: 1000 });
+    t.ok((sizeErrors?.[0].message as string).includes('"first" must be between'));
+
+    const { body: user2 } = await createUser(app);
+    const { page } = await getPostsPage({ first: 1 });
+    const {
+      body: { errors: foreignCursorErrors },
+    } = await gqlQuery(app, {
+      query: `query ($id: UUID!, $after: String) {
+        user(id: $id) {
+            postsConnection(after: $after) {
+              totalCount
+            }
+        }
+    }`,
+      variables: { id: user2.id, after: page.pageInfo.endCursor },
+    });
+    t.ok(
+      (foreignCursorErrors?.[0].message as string).includes('is not part of this list'),
+    );
+  });
+});
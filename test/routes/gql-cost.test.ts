@@ -0,0 +1,91 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { getPrismaStats, gqlQuery } from '../utils/requests.js';
+
+await test('gql-cost', async (t) => {
+  const app = await build(t);
+
+  await t.test('Report query cost in extensions.', async (t) => {
+    const {
+      body: { errors, extensions },
+    } = await gqlQuery(app, {
+      query: `query {
+        users {
+            id
+            posts {
+              id
+            }
+        }
+    }`,
+    });
+
+    t.ok(!errors);
+    t.ok(extensions.cost.requested === 110);
+  });
+
+  await t.test('Reject too costly query before touching the db.', async (t) => {
+    const {
+      body: { operationHistory: beforeHistory },
+    } = await getPrismaStats(app);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `query {
+        users {
+            id
+            userSubscribedTo {
+              posts {
+                id
+              }
+              userSubscribedTo {
+                posts {
+                  id
+                }
+              }
+            }
+        }
+    }`,
+    });
+
+    const {
+      body: { operationHistory: afterHistory },
+    } = await getPrismaStats(app);
+
+    t.ok(errors.length === 1);
+    const message = errors[0].message as string;
+    t.ok(message.startsWith('Operation cost 12110 exceeds maximum allowed cost'));
+    t.ok(afterHistory.length === beforeHistory.length);
+  });
+
+  await t.test('Count negative list sizes as unbounded lists.', async (t) => {
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `query {
+        s: search(text: "a", limit: -100000) {
+            id
+        }
+        postsConnection(first: -100000) {
+            totalCount
+        }
+        users {
+            userSubscribedTo {
+              posts {
+                id
+              }
+              userSubscribedTo {
+                posts {
+                  id
+                }
+              }
+            }
+        }
+    }`,
+    });
+
+    t.ok(errors.length === 1);
+    t.ok(errors[0].extensions.code === 'QUERY_TOO_COSTLY');
+    t.ok(errors[0].extensions.cost > 12110);
+  });
+});
@@ -0,0 +1,153 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { createPost, createProfile, createUser, gqlQuery } from '../utils/requests.js';
+import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
+
+await test('gql-filters', async (t) => {
+  const app = await build(t);
+
+  await t.test('Filter users by name and sort them.', async (t) => {
+    const prefix = `filter-${Date.now()}`;
+    const { body: user1 } = await createUser(app, {
+      name: `${prefix}-b`,
+      password: prefix,
+    });
+    const { body: user2 } = await createUser(app, {
+      name: `${prefix}-a`,
+      password: prefix,
+    });
+    await createUser(app);
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query ($prefix: String!) {
+        users(
+          where: { name: { startsWith: $prefix }, balance: { gte: 0, lt: 1 } }
+          orderBy: [{ name: ASC }]
+        ) {
+            id
+        }
+    }`,
+      variables: { prefix },
+    });
+
+    t.ok(!errors);
+    t.same(data.users, [{ id: user2.id }, { id: user1.id }]);
+  });
+
+  await t.test('Filter profiles by member type and year of birth.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    const { body: profile1 } = await createProfile(app, user1.id, MemberTypeId.BASIC);
+    const { body: profile2 } = await createProfile(app, user2.id, MemberTypeId.BUSINESS);
+    await createProfile(app, user3.id, MemberTypeId.BASIC);
+    const userIds = [user1.id, user2.id, user3.id];
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query ($userIds: [UUID!]!, $from: Int!, $to: Int!) {
+        profiles(
+          where: {
+            userId: { in: $userIds }
+            memberTypeId: { in: [business] }
+            yearOfBirth: { gte: $from, lte: $to }
+          }
+        ) {
+            id
+        }
+    }`,
+      variables: { userIds, from: profile2.yearOfBirth, to: profile2.yearOfBirth },
+    });
+    t.ok(!errors);
+    t.same(data.profiles, [{ id: profile2.id }]);
+
+    const {
+      body: { data: sortedData },
+    } = await gqlQuery(app, {
+      query: `query ($userIds: [UUID!]!) {
+        profiles(
+          where: { userId: { in: $userIds }, isMale: { equals: ${profile1.isMale} } }
+          orderBy: [{ yearOfBirth: DESC }, { id: ASC }]
+        ) {
+            id
+            isMale
+            yearOfBirth
+        }
+    }`,
+      variables: { userIds },
+    });
+    const profiles = sortedData.profiles as { isMale: boolean; yearOfBirth: number }[];
+    const years = profiles.map(({ yearOfBirth }) => yearOfBirth);
+    t.ok(profiles.every(({ isMale }) => isMale === profile1.isMale));
+    t.ok(years.length > 0);
+    t.same(
+      years,
+      [...years].sort((a, b) => b - a),
+    );
+  });
+
+  await t.test('Reject fields and operators outside the allowlist.', async (t) => {
+    const {
+      body: { errors: fieldErrors },
+    } = await gqlQuery(app, {
+      query: `query {
+        users(where: { passwordHash: { equals: "secret" } }) {
+            id
+        }
+    }`,
+    });
+    t.ok(fieldErrors?.length === 1);
+    t.ok((fieldErrors[0].message as string).includes('passwordHash'));
+
+    const {
+      body: { errors: operatorErrors },
+    } = await gqlQuery(app, {
+      query: `query {
+        users(where: { balance: { contains: "1" } }) {
+            id
+        }
+    }`,
+    });
+    t.ok(operatorErrors?.length === 1);
+    t.ok((operatorErrors[0].message as string).includes('contains'));
+
+    const {
+      body: { errors: sortErrors },
+    } = await gqlQuery(app, {
+      query: `query {
+        posts(orderBy: [{ deletedAt: ASC }]) {
+            id
+        }
+    }`,
+    });
+    t.ok(sortErrors?.length === 1);
+  });
+
+  await t.test('Filter posts by their creation time.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    await createPost(app, user1.id);
+    const since = new Date().toISOString();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const { body: post2 } = await createPost(app, user1.id);
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query ($authorId: UUID!, $since: DateTime!) {
+        posts(where: { authorId: { equals: $authorId }, createdAt: { gt: $since } }) {
+            id
+        }
+    }`,
+      variables: {
+        authorId: user1.id,
+        since,
+      },
+    });
+
+    t.ok(!errors);
+    t.same(data.posts, [{ id: post2.id }]);
+  });
+});
@@ -0,0 +1,81 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { createUser, gqlGetQuery } from '../utils/requests.js';
+
+await test('gql-get', async (t) => {
+  const app = await build(t);
+
+  await t.test('Answer 304 when the ETag matches.', async (t) => {
+    const query = `query {
+        memberTypes {
+            id
+            discount
+        }
+    }`;
+
+    const { res, body } = await gqlGetQuery(app, { query });
+    t.ok(res.statusCode === 200);
+    t.ok(body?.data.memberTypes.length === 2);
+    const etag = res.headers['etag'];
+    t.ok(typeof etag === 'string' && etag.length > 0);
+    t.ok(res.headers['cache-control'] === 'public, max-age=60');
+
+    const { res: cachedRes, body: cachedBody } = await gqlGetQuery(
+      app,
+      { query },
+      { 'if-none-match': String(etag) },
+    );
+    t.ok(cachedRes.statusCode === 304);
+    t.ok(cachedBody === undefined);
+
+    const { res: staleRes } = await gqlGetQuery(
+      app,
+      { query },
+      { 'if-none-match': '"stale"' },
+    );
+    t.ok(staleRes.statusCode === 200);
+    t.ok(staleRes.headers['etag'] === etag);
+  });
+
+  await t.test('Read variables and the operation name.', async (t) => {
+    const { body: user1 } = await createUser(app);
+
+    const { res, body } = await gqlGetQuery(app, {
+      query: `query Other { memberTypes { id } }
+        query GetUser($id: UUID!) { user(id: $id) { id name } }`,
+      variables: JSON.stringify({ id: user1.id }),
+      operationName: 'GetUser',
+    });
+    t.ok(res.statusCode === 200);
+    t.same(body?.data, { user: { id: user1.id, name: user1.name } });
+
+    const { res: badRes } = await gqlGetQuery(app, {
+      query: `query GetUser($id: UUID!) { user(id: $id) { id } }`,
+      variables: '[1, 2]',
+    });
+    t.ok(badRes.statusCode === 400);
+  });
+
+  await t.test('Reject mutations over GET.', async (t) => {
+    const { body: user1 } = await createUser(app);
+
+    const { res } = await gqlGetQuery(app, {
+      query: `mutation ($id: UUID!) {
+        deleteUser(id: $id)
+    }`,
+      variables: JSON.stringify({ id: user1.id }),
+    });
+    t.ok(res.statusCode === 405);
+    t.ok(res.headers['allow'] === 'POST');
+  });
+
+  await t.test('Keep errors out of caches.', async (t) => {
+    const { res, body } = await gqlGetQuery(app, {
+      query: `query { memberTypes { unknownField } }`,
+    });
+    t.ok(res.statusCode === 200);
+    t.ok(body?.errors.length === 1);
+    t.ok(res.headers['cache-control'] === 'no-store');
+    t.ok(res.headers['etag'] === undefined);
+  });
+});
@@ -2,6 +2,7 @@ import { randomUUID } from 'node:crypto';
 import { test } from 'tap';
 import { build } from '../helper.js';
 import {
+  authHeaders,
   createPost,
   createProfile,
   createUser,
@@ -27,8 +28,10 @@ await test('gql-mutations', async (t) => {
 
     const {
       body: { data, errors },
-    } = await gqlQuery(app, {
-      query: `mutation ($postDto: CreatePostInput!, $userDto: CreateUserInput!, $profileDto: CreateProfileInput!) {
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($postDto: CreatePostInput!, $userDto: CreateUserInput!, $profileDto: CreateProfileInput!) {
         createPost(dto: $postDto) {
             id
         }
@@ -39,12 +42,14 @@ await test('gql-mutations', async (t) => {
             id
         }
     }`,
-      variables: {
-        userDto: genCreateUserDto(),
-        postDto: genCreatePostDto(user1.id),
-        profileDto: genCreateProfileDto(user1.id, MemberTypeId.BUSINESS),
+        variables: {
+          userDto: genCreateUserDto(),
+          postDto: genCreatePostDto(user1.id),
+          profileDto: genCreateProfileDto(user1.id, MemberTypeId.BUSINESS),
+        },
       },
-    });
+      authHeaders(user1.id),
+    );
 
     const { body: foundCreatedPost } = await getPost(app, data.createPost.id);
     const { body: foundCreatedUser } = await getUser(app, data.createUser.id);
@@ -85,19 +90,23 @@ await test('gql-mutations', async (t) => {
 
     const {
       body: { errors },
-    } = await gqlQuery(app, {
-      // https://graphql.org/learn/queries/#multiple-fields-in-mutations
-      query: `mutation ($userId: UUID!, $profileId: UUID!, $postId: UUID!) {
+    } = await gqlQuery(
+      app,
+      {
+        // https://graphql.org/learn/queries/#multiple-fields-in-mutations
+        query: `mutation ($userId: UUID!, $profileId: UUID!, $postId: UUID!) {
         deletePost(id: $postId)
         deleteProfile(id: $profileId)
         deleteUser(id: $userId)
     }`,
-      variables: {
-        postId: post1.id,
-        profileId: profile1.id,
-        userId: user1.id,
+        variables: {
+          postId: post1.id,
+          profileId: profile1.id,
+          userId: user1.id,
+        },
       },
-    });
+      authHeaders(user1.id),
+    );
 
     const { body: foundDeletedPost } = await getPost(app, post1.id);
     const { body: foundCreatedUser } = await getUser(app, user1.id);
@@ -120,8 +129,10 @@ await test('gql-mutations', async (t) => {
 
     const {
       body: { data, errors },
-    } = await gqlQuery(app, {
-      query: `
+    } = await gqlQuery(
+      app,
+      {
+        query: `
       mutation ($postId: UUID!, $postDto: ChangePostInput!, $profileId: UUID!, $profileDto: ChangeProfileInput!, $userId: UUID!, $userDto: ChangeUserInput!) {
         changePost(id: $postId, dto: $postDto) {
             id
@@ -134,15 +145,17 @@ await test('gql-mutations', async (t) => {
         }
       }
       `,
-      variables: {
-        postId: post1.id,
-        postDto: { title: changedTitle },
-        profileId: profile1.id,
-        profileDto: { isMale: changedIsMale },
-        userId: user1.id,
-        userDto: { name: changedName },
+        variables: {
+          postId: post1.id,
+          postDto: { title: changedTitle },
+          profileId: profile1.id,
+          profileDto: { isMale: changedIsMale },
+          userId: user1.id,
+          userDto: { name: changedName },
+        },
       },
-    });
+      authHeaders(user1.id),
+    );
 
     const { body: foundChangedPost } = await getPost(app, data.changePost.id);
     const { body: foundChangedUser } = await getUser(app, data.changeUser.id);
@@ -182,32 +195,34 @@ await test('gql-mutations', async (t) => {
     const { body: user1 } = await createUser(app);
     const { body: user2 } = await createUser(app);
     const { body: user3 } = await createUser(app);
-    const { body: user4 } = await createUser(app);
 
-    await subscribeTo(app, user3.id, user4.id);
+    await subscribeTo(app, user1.id, user3.id);
 
     const {
       body: { errors },
-    } = await gqlQuery(app, {
-      query: `mutation ($userId1: UUID!, $authorId1: UUID!, $userId2: UUID!, $authorId2: UUID!) {
-        subscribeTo(userId: $userId1, authorId: $authorId1) {
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($userId: UUID!, $authorId1: UUID!, $authorId2: UUID!) {
+        subscribeTo(userId: $userId, authorId: $authorId1) {
             id
         }
-        unsubscribeFrom(userId: $userId2, authorId: $authorId2)
+        unsubscribeFrom(userId: $userId, authorId: $authorId2)
     }`,
-      variables: {
-        userId1: user1.id,
-        authorId1: user2.id,
-        userId2: user3.id,
-        authorId2: user4.id,
+        variables: {
+          userId: user1.id,
+          authorId1: user2.id,
+          authorId2: user3.id,
+        },
       },
-    });
+      authHeaders(user1.id),
+    );
 
     const { body: subscribedToUser2 } = await subscribedToUser(app, user2.id);
-    const { body: subscribedToUser4 } = await subscribedToUser(app, user4.id);
+    const { body: subscribedToUser3 } = await subscribedToUser(app, user3.id);
 
     t.ok(!errors);
     t.ok(subscribedToUser2[0].id === user1.id);
-    t.ok(subscribedToUser4.length === 0);
+    t.ok(subscribedToUser3.length === 0);
   });
 });
@@ -0,0 +1,98 @@
+import { test } from 'tap';
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { build } from '../helper.js';
+import { gqlQuery } from '../utils/requests.js';
+
+const hashQuery = (query: string) => createHash('sha256').update(query).digest('hex');
+
+const persistedQuery = (query: string) => ({
+  persistedQuery: { version: 1, sha256Hash: hashQuery(query) },
+});
+
+await test('gql-persisted-queries', async (t) => {
+  const query = `query {
+        memberTypes {
+            id
+        }
+    }`;
+
+  await t.test('Run a registered query by its hash alone.', async (t) => {
+    const app = await build(t);
+
+    const {
+      body: { errors: missErrors },
+    } = await gqlQuery(app, { extensions: persistedQuery(query) });
+    t.ok(missErrors?.length === 1);
+    t.ok(missErrors[0].message === 'PersistedQueryNotFound');
+    t.ok(missErrors[0].extensions.code === 'PERSISTED_QUERY_NOT_FOUND');
+
+    const {
+      body: { errors: registerErrors, data: registeredData },
+    } = await gqlQuery(app, { query, extensions: persistedQuery(query) });
+    t.ok(!registerErrors);
+    t.ok(registeredData.memberTypes.length === 2);
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, { extensions: persistedQuery(query) });
+    t.ok(!errors);
+    t.same(data, registeredData);
+  });
+
+  await t.test('Reject a query that does not match its hash.', async (t) => {
+    const app = await build(t);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query,
+      extensions: persistedQuery(`query { memberTypes { discount } }`),
+    });
+    t.ok(errors?.length === 1);
+    t.ok(errors[0].extensions.code === 'BAD_USER_INPUT');
+  });
+
+  await t.test('Run only allowlisted operations in allowlist mode.', async (t) => {
+    const dir = await mkdtemp(join(tmpdir(), 'allowlist-'));
+    t.teardown(() => rm(dir, { recursive: true, force: true }));
+    const allowlistPath = join(dir, 'allowlist.json');
+    await writeFile(allowlistPath, JSON.stringify({ [hashQuery(query)]: query }));
+    const app = await build(t, {
+      GQL_ALLOWLIST_ONLY: 'true',
+      GQL_ALLOWLIST_PATH: allowlistPath,
+    });
+
+    const {
+      body: { errors: hashErrors, data: hashData },
+    } = await gqlQuery(app, { extensions: persistedQuery(query) });
+    t.ok(!hashErrors);
+    t.ok(hashData.memberTypes.length === 2);
+
+    const {
+      body: { errors: queryErrors },
+    } = await gqlQuery(app, { query });
+    t.ok(!queryErrors);
+
+    const unknownQuery = `query { memberTypes { discount } }`;
+    const {
+      body: { errors: unknownHashErrors },
+    } = await gqlQuery(app, { extensions: persistedQuery(unknownQuery) });
+    t.ok(unknownHashErrors?.[0].extensions.code === 'PERSISTED_QUERY_NOT_IN_LIST');
+
+    const {
+      body: { errors: unknownQueryErrors },
+    } = await gqlQuery(app, {
+      query: unknownQuery,
+      extensions: persistedQuery(unknownQuery),
+    });
+    t.ok(unknownQueryErrors?.[0].extensions.code === 'PERSISTED_QUERY_NOT_IN_LIST');
+
+    const {
+      body: { errors: adHocErrors },
+    } = await gqlQuery(app, { query: unknownQuery });
+    t.ok(adHocErrors?.[0].extensions.code === 'PERSISTED_QUERY_NOT_IN_LIST');
+  });
+});
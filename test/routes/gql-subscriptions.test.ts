@@ -0,0 +1,147 @@
+import { test } from 'tap';
+import { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import WebSocket from 'ws';
+import { Client, createClient } from 'graphql-ws';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createPost,
+  createUser,
+  gqlQuery,
+  subscribeTo,
+} from '../utils/requests.js';
+import { genCreatePostDto } from '../utils/fake.js';
+
+// Resolves with the first event of the subscription, once `trigger` has run.
+async function nextEvent(
+  client: Client,
+  query: string,
+  variables: Record<string, unknown>,
+  trigger: () => Promise<unknown>,
+) {
+  const events = client.iterate({ query, variables });
+  const event = events.next();
+  // The server sets the subscription up after the message arrives.
+  await sleep(100);
+  await trigger();
+  const { value } = await event;
+  await events.return?.();
+  return value as {
+    data?: Record<string, Record<string, unknown>>;
+    errors?: { message: string }[];
+  };
+}
+
+await test('gql-subscriptions', async (t) => {
+  const app = await build(t);
+  await app.listen({ port: 0, host: '127.0.0.1' });
+  const { port } = app.server.address() as AddressInfo;
+  // The upgrade request carries the credentials, like any other request.
+  const connect = (headers: Record<string, string> = {}) => {
+    const client = createClient({
+      url: `ws://127.0.0.1:${port}/graphql`,
+      webSocketImpl: class extends WebSocket {
+        constructor(address: string, protocols?: string | string[]) {
+          super(address, protocols, { headers });
+        }
+      },
+      retryAttempts: 0,
+    });
+    t.teardown(() => client.dispose());
+    return client;
+  };
+  const client = connect();
+
+  await t.test('Deliver posts created over REST and GraphQL.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const query = `subscription ($authorId: UUID) {
+        postCreated(authorId: $authorId) {
+            id
+            authorId
+        }
+    }`;
+
+    let restPostId = '';
+    const restEvent = await nextEvent(client, query, { authorId: user1.id }, async () => {
+      const { body: post } = await createPost(app, user1.id);
+      restPostId = post.id;
+    });
+    t.ok(!restEvent.errors);
+    t.ok(restEvent.data?.postCreated.id === restPostId);
+
+    let gqlPostId = '';
+    const gqlEvent = await nextEvent(client, query, { authorId: user1.id }, async () => {
+      const {
+        body: { data },
+      } = await gqlQuery(
+        app,
+        {
+          query: `mutation ($postDto: CreatePostInput!) {
+        createPost(dto: $postDto) {
+            id
+        }
+    }`,
+          variables: { postDto: genCreatePostDto(user1.id) },
+        },
+        authHeaders(user1.id),
+      );
+      gqlPostId = data.createPost.id;
+    });
+    t.ok(gqlEvent.data?.postCreated.id === gqlPostId);
+    t.ok(gqlEvent.data?.postCreated.authorId === user1.id);
+  });
+
+  await t.test('Deliver new subscribers of an author.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+
+    const event = await nextEvent(
+      client,
+      `subscription ($authorId: UUID!) {
+        userSubscribed(authorId: $authorId) {
+            id
+        }
+    }`,
+      { authorId: user2.id },
+      () => subscribeTo(app, user1.id, user2.id),
+    );
+    t.ok(!event.errors);
+    t.ok(event.data?.userSubscribed.id === user1.id);
+  });
+
+  await t.test('Deliver posts of authors the viewer follows.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+    const query = `subscription {
+        feedUpdated {
+            id
+        }
+    }`;
+
+    const anonymousEvent = await nextEvent(client, query, {}, async () => {});
+    t.ok(anonymousEvent.errors?.[0].message === 'Authentication required.');
+
+    let followedPostId = '';
+    const event = await nextEvent(connect(authHeaders(user1.id)), query, {}, async () => {
+      await createPost(app, user3.id);
+      const { body: post } = await createPost(app, user2.id);
+      followedPostId = post.id;
+    });
+    t.ok(!event.errors);
+    t.ok(event.data?.feedUpdated.id === followedPostId);
+  });
+
+  await t.test('Reject invalid subscriptions.', async (t) => {
+    const events = client.iterate({
+      query: `subscription {
+        postCreated {
+            unknownField
+        }
+    }`,
+    });
+    await t.rejects(events.next());
+  });
+});
@@ -0,0 +1,271 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  charge,
+  createProfile,
+  createUser,
+  deposit,
+  getBalanceReconciliation,
+  getPrismaStats,
+  getTransactions,
+  getUser,
+  gqlQuery,
+  reconcileBalance,
+  tokenOf,
+  transfer,
+} from '../utils/requests.js';
+import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
+import { genCreateUserDto } from '../utils/fake.js';
+
+await test('ledger', async (t) => {
+  const app = await build(t);
+  // Money only comes in through deposits of administrators; both apps share the database.
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+  const adminToken = tokenOf(admin.id);
+
+  await t.test('Transfer money between users.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await deposit(adminApp, user1.id, 10, adminToken);
+    await deposit(adminApp, user2.id, 2, adminToken);
+
+    const { res, body: transaction } = await transfer(app, user1.id, user2.id, 0.5);
+    t.ok(res.statusCode === 200);
+    t.ok(transaction.amount === 0.5);
+
+    const { body: foundUser1 } = await getUser(app, user1.id);
+    const { body: foundUser2 } = await getUser(app, user2.id);
+    t.ok(foundUser1.balance === 9.5);
+    t.ok(foundUser2.balance === 2.5);
+
+    const { body: transactions } = await getTransactions(app, user2.id);
+    t.ok(transactions.length === 2);
+    t.ok(transactions.some(({ id }) => id === transaction.id));
+  });
+
+  await t.test('Reject overdrafts.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await deposit(adminApp, user1.id, 5, adminToken);
+
+    const { res } = await transfer(app, user1.id, user2.id, 6);
+    t.ok(res.statusCode === 422);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($userId: UUID!, $dto: CreateChargeInput!) {
+        charge(userId: $userId, dto: $dto) {
+            id
+        }
+    }`,
+        variables: {
+          userId: user1.id,
+          dto: { amount: 6 },
+        },
+      },
+      authHeaders(user1.id),
+    );
+    t.ok(errors?.length === 1);
+
+    const { body: foundUser1 } = await getUser(app, user1.id);
+    t.ok(foundUser1.balance === 5);
+  });
+
+  await t.test('Apply the member type discount to charges.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    await deposit(adminApp, user1.id, 10, adminToken);
+    await createProfile(app, user1.id, MemberTypeId.BUSINESS);
+
+    const { body: transaction } = await charge(app, user1.id, 5);
+    t.ok(transaction.discount === 7.7);
+    t.ok(transaction.amount === 4.62);
+
+    const { body: reconciliation } = await getBalanceReconciliation(app, user1.id);
+    t.ok(reconciliation.difference === 0);
+  });
+
+  await t.test('Move money as its owner or an administrator only.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await deposit(adminApp, user1.id, 10, adminToken);
+
+    const {
+      body: { errors: transferErrors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($userId: UUID!, $dto: CreateTransferInput!) {
+        transfer(userId: $userId, dto: $dto) {
+            id
+        }
+    }`,
+        variables: {
+          userId: user1.id,
+          dto: { recipientId: user2.id, amount: 1 },
+        },
+      },
+      authHeaders(user2.id),
+    );
+    t.ok(transferErrors?.[0].extensions.code === 'FORBIDDEN');
+
+    const {
+      body: { errors: chargeErrors },
+    } = await gqlQuery(app, {
+      query: `mutation ($userId: UUID!, $dto: CreateChargeInput!) {
+        charge(userId: $userId, dto: $dto) {
+            id
+        }
+    }`,
+      variables: {
+        userId: user1.id,
+        dto: { amount: 1 },
+      },
+    });
+    t.ok(chargeErrors?.[0].extensions.code === 'UNAUTHENTICATED');
+
+    const { res: depositRes } = await deposit(app, user1.id, 10, tokenOf(user1.id));
+    t.ok(depositRes.statusCode === 403);
+    const { res: reconcileRes } = await reconcileBalance(
+      app,
+      user1.id,
+      tokenOf(user1.id),
+    );
+    t.ok(reconcileRes.statusCode === 403);
+    const { res: adminReconcileRes } = await reconcileBalance(
+      adminApp,
+      user1.id,
+      adminToken,
+    );
+    t.ok(adminReconcileRes.statusCode === 200);
+
+    const { body: foundUser1 } = await getUser(app, user1.id);
+    t.ok(foundUser1.balance === 10);
+  });
+
+  await t.test('Show transactions to the owner or an administrator.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await deposit(adminApp, user1.id, 10, adminToken);
+
+    const { res: anonymousRes } = await getTransactions(app, user1.id, null);
+    t.ok(anonymousRes.statusCode === 401);
+    const { res: otherRes } = await getTransactions(app, user1.id, tokenOf(user2.id));
+    t.ok(otherRes.statusCode === 403);
+    const { res: ownerRes } = await getTransactions(app, user1.id);
+    t.ok(ownerRes.statusCode === 200);
+    const { res: adminRes } = await getTransactions(adminApp, user1.id, adminToken);
+    t.ok(adminRes.statusCode === 200);
+
+    const { res: otherReconciliationRes } = await getBalanceReconciliation(
+      app,
+      user1.id,
+      tokenOf(user2.id),
+    );
+    t.ok(otherReconciliationRes.statusCode === 403);
+
+    const query = `query ($id: UUID!) {
+        user(id: $id) {
+            transactions {
+              id
+            }
+            balanceReconciliation {
+              difference
+            }
+        }
+    }`;
+    const {
+      body: { errors: anonymousErrors },
+    } = await gqlQuery(app, { query, variables: { id: user1.id } });
+    t.ok(anonymousErrors?.[0].extensions.code === 'UNAUTHENTICATED');
+    const {
+      body: { errors: otherErrors },
+    } = await gqlQuery(
+      app,
+      { query, variables: { id: user1.id } },
+      authHeaders(user2.id),
+    );
+    t.ok(otherErrors?.[0].extensions.code === 'FORBIDDEN');
+    const {
+      body: { errors, data },
+    } = await gqlQuery(
+      app,
+      { query, variables: { id: user1.id } },
+      authHeaders(user1.id),
+    );
+    t.ok(!errors);
+    t.ok(data.user.transactions.length === 1);
+  });
+
+  await t.test('Open accounts with an empty balance.', async (t) => {
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `mutation ($dto: CreateUserInput!) {
+        createUser(dto: $dto) {
+            id
+        }
+    }`,
+      variables: {
+        dto: { ...genCreateUserDto(), balance: 1000 },
+      },
+    });
+    t.ok(errors?.length === 1);
+    const message = errors[0].message as string;
+    t.ok(
+      message.includes(`Field \"balance\" is not defined by type \"CreateUserInput\"`),
+    );
+
+    const { body: user1 } = await createUser(app);
+    t.ok(user1.balance === 0);
+  });
+
+  await t.test('Reconcile the balances of a list of users at once.', async (t) => {
+    for (let i = 0; i < 3; i++) {
+      const { body: user } = await createUser(app);
+      await deposit(adminApp, user.id, 5, adminToken);
+    }
+
+    const {
+      body: { operationHistory: beforeHistory },
+    } = await getPrismaStats(adminApp);
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(
+      adminApp,
+      {
+        query: `query {
+        users {
+            id
+            balanceReconciliation {
+              difference
+            }
+        }
+    }`,
+      },
+      { authorization: `Bearer ${adminToken}` },
+    );
+
+    const {
+      body: { operationHistory: afterHistory },
+    } = await getPrismaStats(adminApp);
+
+    t.ok(!errors);
+    t.ok(data.users.length >= 3);
+    const history = afterHistory.slice(beforeHistory.length);
+    const sumCalls = history.filter(
+      ({ model, operation }) => model === 'Transaction' && operation === 'groupBy',
+    );
+    const userLookups = history.filter(
+      ({ model, operation }) => model === 'User' && operation === 'findUnique',
+    );
+    t.ok(sumCalls.length === 2);
+    // Only the viewer is looked up.
+    t.ok(userLookups.length === 1);
+  });
+});
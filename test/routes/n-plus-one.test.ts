@@ -0,0 +1,73 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { createUser, gqlQuery } from '../utils/requests.js';
+import { NPlusOneDetection } from '../../src/plugins/n-plus-one.js';
+
+await test('n-plus-one', async (t) => {
+  const app = await build(t, { N_PLUS_ONE_THRESHOLD: '5', N_PLUS_ONE_EXPOSE: 'true' });
+
+  const userIds: string[] = [];
+  for (let i = 0; i < 5; i++) {
+    const { body: user } = await createUser(app);
+    userIds.push(user.id);
+  }
+  // Top-level lookups of single users go to the database one by one.
+  const userLookups = `query {
+    ${userIds.map((id, i) => `user${i}: user(id: "${id}") { id }`).join('\n')}
+  }`;
+
+  await t.test('Report repeated lookups with their GraphQL path.', async (t) => {
+    const {
+      res,
+      body: { errors, extensions },
+    } = await gqlQuery(app, {
+      query: userLookups,
+    });
+
+    const detections = extensions?.nPlusOne as NPlusOneDetection[];
+    const foundUserLookups = detections?.find(
+      ({ model, operation }) => model === 'User' && operation === 'findUnique',
+    );
+
+    t.ok(!errors);
+    t.ok(String(res.headers['x-n-plus-one']).includes('User.findUnique'));
+    t.ok(foundUserLookups?.paths.includes('user0'));
+  });
+
+  await t.test('Stay quiet for batched loaders.', async (t) => {
+    const {
+      res,
+      body: { errors, extensions },
+    } = await gqlQuery(app, {
+      query: `query {
+        users {
+            id
+            posts {
+              id
+            }
+            profile {
+              id
+            }
+        }
+    }`,
+    });
+
+    t.ok(!errors);
+    t.ok(res.headers['x-n-plus-one'] === undefined);
+    t.ok(extensions?.nPlusOne === undefined);
+  });
+
+  await t.test('Stay off unless it is configured.', async (t) => {
+    const defaultApp = await build(t);
+    const {
+      res,
+      body: { errors, extensions },
+    } = await gqlQuery(defaultApp, {
+      query: userLookups,
+    });
+
+    t.ok(!errors);
+    t.ok(res.headers['x-n-plus-one'] === undefined);
+    t.ok(extensions?.nPlusOne === undefined);
+  });
+});
@@ -0,0 +1,144 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  changePost,
+  changeUser,
+  createPost,
+  createUser,
+  deleteUser,
+  getPost,
+  getUser,
+  gqlQuery,
+  login,
+  tokenOf,
+} from '../utils/requests.js';
+import { genCreateUserDto } from '../utils/fake.js';
+
+await test('policy', async (t) => {
+  const app = await build(t);
+  const password = 'correct horse battery staple';
+
+  await t.test('Only the author can change a post.', async (t) => {
+    const { body: user1 } = await createUser(app, { ...genCreateUserDto(), password });
+    const { body: user2 } = await createUser(app, { ...genCreateUserDto(), password });
+    const { body: post1 } = await createPost(app, user1.id);
+
+    const { body: token1 } = await login(app, user1.id, password);
+    const { body: token2 } = await login(app, user2.id, password);
+
+    const { res: forbiddenRes } = await changePost(
+      app,
+      post1.id,
+      { title: 'changed' },
+      token2.token,
+    );
+    t.ok(forbiddenRes.statusCode === 403);
+
+    const { res: allowedRes, body: changedPost } = await changePost(
+      app,
+      post1.id,
+      { title: 'changed' },
+      token1.token,
+    );
+    t.ok(allowedRes.statusCode === 200);
+    t.ok(changedPost.title === 'changed');
+
+    const {
+      body: { errors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($id: UUID!, $dto: ChangePostInput!) {
+        changePost(id: $id, dto: $dto) {
+            id
+        }
+    }`,
+        variables: {
+          id: post1.id,
+          dto: { title: 'changed again' },
+        },
+      },
+      { authorization: `Bearer ${token2.token}` },
+    );
+    t.ok(errors.length === 1);
+    t.ok(errors[0].extensions.code === 'FORBIDDEN');
+  });
+
+  await t.test('Reject anonymous changes even when AUTH_REQUIRED is off.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+
+    const { res } = await changePost(app, post1.id, { title: 'changed' });
+    t.ok(res.statusCode === 401);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `mutation ($id: UUID!) {
+        deletePost(id: $id)
+    }`,
+      variables: {
+        id: post1.id,
+      },
+    });
+    t.ok(errors.length === 1);
+    t.ok(errors[0].extensions.code === 'UNAUTHENTICATED');
+
+    const { body: unchangedPost } = await getPost(app, post1.id);
+    t.ok(unchangedPost.title === post1.title);
+  });
+
+  await t.test('Only the user can change or delete their account.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+
+    const { res: anonymousRes } = await changeUser(app, user1.id, { name: 'changed' });
+    t.ok(anonymousRes.statusCode === 401);
+    const { res: forbiddenRes } = await changeUser(
+      app,
+      user1.id,
+      { name: 'changed' },
+      tokenOf(user2.id),
+    );
+    t.ok(forbiddenRes.statusCode === 403);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($id: UUID!) {
+        deleteUser(id: $id)
+    }`,
+        variables: {
+          id: user1.id,
+        },
+      },
+      { authorization: `Bearer ${tokenOf(user2.id)}` },
+    );
+    t.ok(errors.length === 1);
+    t.ok(errors[0].extensions.code === 'FORBIDDEN');
+
+    const { res: anonymousDeleteRes } = await deleteUser(app, user1.id);
+    t.ok(anonymousDeleteRes.statusCode === 401);
+    const { res: forbiddenDeleteRes } = await deleteUser(
+      app,
+      user1.id,
+      tokenOf(user2.id),
+    );
+    t.ok(forbiddenDeleteRes.statusCode === 403);
+    const { res: foundRes } = await getUser(app, user1.id);
+    t.ok(foundRes.statusCode === 200);
+
+    const { res: allowedRes, body: changedUser } = await changeUser(
+      app,
+      user1.id,
+      { name: 'changed' },
+      tokenOf(user1.id),
+    );
+    t.ok(allowedRes.statusCode === 200);
+    t.ok(changedUser.name === 'changed');
+    const { res: deleteRes } = await deleteUser(app, user1.id, tokenOf(user1.id));
+    t.ok(deleteRes.statusCode === 204);
+  });
+});
@@ -0,0 +1,192 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  changeProfile,
+  createPost,
+  createProfile,
+  createUser,
+  deletePost,
+  getPostQuota,
+  getPrismaStats,
+  gqlQuery,
+  tokenOf,
+} from '../utils/requests.js';
+import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
+import { genCreatePostDto } from '../utils/fake.js';
+
+await test('post-quota', async (t) => {
+  const app = await build(t);
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+
+  await t.test('Reject posts over the monthly limit of the member type.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    await createProfile(app, user1.id, MemberTypeId.BASIC);
+
+    for (let i = 0; i < 10; i++) {
+      const { res } = await createPost(app, user1.id);
+      t.ok(res.statusCode === 200);
+    }
+
+    const { res } = await createPost(app, user1.id);
+    t.ok(res.statusCode === 429);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(app, {
+      query: `mutation ($postDto: CreatePostInput!) {
+        createPost(dto: $postDto) {
+            id
+        }
+    }`,
+      variables: {
+        postDto: genCreatePostDto(user1.id),
+      },
+    });
+    t.ok(errors?.length === 1);
+  });
+
+  await t.test('Count deleted posts against the limit.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    await createProfile(app, user1.id, MemberTypeId.BASIC);
+
+    const { body: post1 } = await createPost(app, user1.id);
+    for (let i = 0; i < 9; i++) {
+      await createPost(app, user1.id);
+    }
+
+    const { res: deleteRes } = await deletePost(app, post1.id, tokenOf(user1.id));
+    t.ok(deleteRes.statusCode === 204);
+
+    const { res } = await createPost(app, user1.id);
+    t.ok(res.statusCode === 429);
+
+    const { body: quota } = await getPostQuota(app, user1.id);
+    t.ok(quota.used === 10);
+    t.ok(quota.remaining === 0);
+  });
+
+  await t.test('Report the quota left for the current month.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    await createProfile(app, user1.id, MemberTypeId.BUSINESS);
+    await createPost(app, user1.id);
+    await createPost(app, user2.id);
+
+    const { body: quota1 } = await getPostQuota(app, user1.id);
+    t.ok(quota1.limit === 100);
+    t.ok(quota1.used === 1);
+    t.ok(quota1.remaining === 99);
+
+    const { body: quota2 } = await getPostQuota(app, user2.id);
+    t.ok(quota2.limit === null);
+    t.ok(quota2.remaining === null);
+
+    const {
+      body: { data },
+    } = await gqlQuery(app, {
+      query: `query ($userId: UUID!) {
+        user(id: $userId) {
+            postQuota {
+              limit
+              used
+              remaining
+            }
+        }
+    }`,
+      variables: {
+        userId: user1.id,
+      },
+    });
+    t.same(data.user.postQuota, { limit: 100, used: 1, remaining: 99 });
+  });
+
+  await t.test('Count the posts of a list of users at once.', async (t) => {
+    for (let i = 0; i < 3; i++) {
+      const { body: user } = await createUser(app);
+      await createPost(app, user.id);
+      await createProfile(app, user.id, MemberTypeId.BASIC);
+    }
+
+    const {
+      body: { operationHistory: beforeHistory },
+    } = await getPrismaStats(app);
+
+    const {
+      body: { errors, data },
+    } = await gqlQuery(app, {
+      query: `query {
+        users {
+            id
+            postQuota {
+              used
+              remaining
+            }
+        }
+    }`,
+    });
+
+    const {
+      body: { operationHistory: afterHistory },
+    } = await getPrismaStats(app);
+
+    t.ok(!errors);
+    t.ok(data.users.length >= 3);
+    const history = afterHistory.slice(beforeHistory.length);
+    const postCountCalls = history.filter(
+      ({ model, operation }) => model === 'Post' && operation === 'groupBy',
+    );
+    t.ok(postCountCalls.length === 1);
+    t.ok(history.length <= 5);
+  });
+
+  await t.test('Let only administrators change the member type.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: profile1 } = await createProfile(app, user1.id, MemberTypeId.BASIC);
+
+    const { res: ownerRes } = await changeProfile(
+      app,
+      profile1.id,
+      { memberTypeId: MemberTypeId.BUSINESS },
+      tokenOf(user1.id),
+    );
+    t.ok(ownerRes.statusCode === 403);
+
+    const {
+      body: { errors },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($id: UUID!, $dto: ChangeProfileInput!) {
+        changeProfile(id: $id, dto: $dto) {
+            id
+        }
+    }`,
+        variables: { id: profile1.id, dto: { memberTypeId: MemberTypeId.BUSINESS } },
+      },
+      authHeaders(user1.id),
+    );
+    t.ok(errors?.[0].extensions.code === 'FORBIDDEN');
+
+    const { body: quota } = await getPostQuota(app, user1.id);
+    t.ok(quota.limit === 10);
+
+    const { res: adminRes, body: changedProfile } = await changeProfile(
+      adminApp,
+      profile1.id,
+      { memberTypeId: MemberTypeId.BUSINESS },
+      tokenOf(admin.id),
+    );
+    t.ok(adminRes.statusCode === 200);
+    t.ok(changedProfile.memberTypeId === MemberTypeId.BUSINESS);
+
+    const { res: ownerChangeRes } = await changeProfile(
+      app,
+      profile1.id,
+      { yearOfBirth: 1990 },
+      tokenOf(user1.id),
+    );
+    t.ok(ownerChangeRes.statusCode === 200);
+  });
+});
@@ -0,0 +1,90 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createUser,
+  getPrismaStats,
+  getPrismaStatsSummary,
+  resetPrismaStats,
+} from '../utils/requests.js';
+
+await test('prisma-stats', async (t) => {
+  const app = await build(t);
+
+  await t.test('Correlate operations with the request that issued them.', async (t) => {
+    const { res } = await createUser(app);
+    const requestId = res.headers['x-request-id'] as string;
+
+    const {
+      body: { operationHistory },
+    } = await getPrismaStats(app, requestId);
+
+    t.ok(operationHistory.length > 0);
+    t.ok(operationHistory.every((operation) => operation.requestId === requestId));
+    t.ok(
+      operationHistory.some(
+        ({ model, operation }) => model === 'User' && operation === 'create',
+      ),
+    );
+    t.ok(operationHistory.every(({ success, durationMs }) => success && durationMs >= 0));
+  });
+
+  await t.test('Summarize and reset the history.', async (t) => {
+    await createUser(app);
+
+    const {
+      body: { operations },
+    } = await getPrismaStatsSummary(app);
+    const foundCreate = operations.find(
+      ({ model, operation }) => model === 'User' && operation === 'create',
+    );
+    t.ok(foundCreate && foundCreate.count >= 2 && foundCreate.p95Ms >= foundCreate.p50Ms);
+
+    const { res: anonymousRes } = await resetPrismaStats(app, {});
+    t.ok(anonymousRes.statusCode === 401);
+
+    const { res } = await resetPrismaStats(app);
+    t.ok(res.statusCode === 204);
+
+    const {
+      body: { operationHistory },
+    } = await getPrismaStats(app);
+    t.ok(operationHistory.length === 0);
+  });
+
+  await t.test('Show the stats to administrators only.', async (t) => {
+    const { body: user1 } = await createUser(app);
+
+    const { res: anonymousRes } = await getPrismaStats(app, undefined, {});
+    t.ok(anonymousRes.statusCode === 401);
+    const { res: userRes } = await getPrismaStats(app, undefined, authHeaders(user1.id));
+    t.ok(userRes.statusCode === 403);
+    const { res: summaryRes } = await getPrismaStatsSummary(app, authHeaders(user1.id));
+    t.ok(summaryRes.statusCode === 403);
+  });
+
+  await t.test('Hide password hashes in the recorded arguments.', async (t) => {
+    const { res } = await createUser(app);
+    const requestId = res.headers['x-request-id'] as string;
+
+    const {
+      res: statsRes,
+      body: { operationHistory },
+    } = await getPrismaStats(app, requestId);
+    const create = operationHistory.find(
+      ({ model, operation }) => model === 'User' && operation === 'create',
+    );
+    t.ok(create?.args.data.passwordHash === '[redacted]');
+    t.ok(!statsRes.body.includes('scrypt:'));
+  });
+
+  await t.test('Leave the requests for the stats out of them.', async (t) => {
+    const {
+      body: { operationHistory: before },
+    } = await getPrismaStats(app);
+    const {
+      body: { operationHistory: after },
+    } = await getPrismaStats(app);
+    t.ok(after.length === before.length);
+  });
+});
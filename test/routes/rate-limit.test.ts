@@ -0,0 +1,46 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { getMemberTypes, gqlQuery } from '../utils/requests.js';
+
+await test('rate-limit', async (t) => {
+  const app = await build(t);
+
+  await t.test('Report the bucket of the caller.', async (t) => {
+    // The bucket starts full, and refills too fast to compare two requests.
+    const { res } = await getMemberTypes(app);
+
+    t.ok(res.statusCode === 200);
+    t.ok(res.headers['ratelimit-limit'] === '10000');
+    t.ok(res.headers['ratelimit-remaining'] === '9990');
+  });
+
+  await t.test('Charge GraphQL operations by their cost until rejected.', async (t) => {
+    const query = `query {
+        users {
+            userSubscribedTo {
+              posts {
+                id
+              }
+              subscribedToUser {
+                id
+              }
+            }
+        }
+    }`;
+
+    const statusCodes: number[] = [];
+    let lastRes = (await gqlQuery(app, { query })).res;
+    statusCodes.push(lastRes.statusCode);
+    while (lastRes.statusCode === 200 && statusCodes.length < 10) {
+      lastRes = (await gqlQuery(app, { query })).res;
+      statusCodes.push(lastRes.statusCode);
+    }
+
+    t.ok(statusCodes.length > 1);
+    t.ok(lastRes.statusCode === 429);
+    t.ok(String(lastRes.headers['content-type']).startsWith('application/problem+json'));
+    t.ok(Number(lastRes.headers['retry-after']) > 0);
+    const problem = (await lastRes.json()) as { status: number };
+    t.ok(problem.status === 429);
+  });
+});
@@ -0,0 +1,65 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  createUser,
+  getRecommendedAuthors,
+  gqlQuery,
+  subscribeTo,
+} from '../utils/requests.js';
+
+await test('recommendations', async (t) => {
+  const app = await build(t);
+
+  await t.test('Rank authors followed by the people a user follows.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    const { body: user4 } = await createUser(app);
+    const { body: user5 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+    await subscribeTo(app, user1.id, user3.id);
+    await subscribeTo(app, user2.id, user4.id);
+    await subscribeTo(app, user3.id, user4.id);
+    await subscribeTo(app, user2.id, user5.id);
+    // Already followed authors are never recommended.
+    await subscribeTo(app, user2.id, user3.id);
+
+    const { res, body: authors } = await getRecommendedAuthors(app, user1.id, 50);
+    t.ok(res.statusCode === 200);
+    const graphAuthors = authors.filter(({ followedByFollowing }) => followedByFollowing);
+    t.same(
+      graphAuthors.map(({ user }) => user.id),
+      [user4.id, user5.id],
+    );
+    t.ok(graphAuthors[0].explanation === 'followed by 2 people you follow');
+    t.ok(graphAuthors[1].explanation === 'followed by 1 person you follow');
+    t.ok(authors.every(({ user }) => ![user1.id, user2.id, user3.id].includes(user.id)));
+  });
+
+  await t.test('Count subscribers who share a follow.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    await subscribeTo(app, user2.id, user1.id);
+    await subscribeTo(app, user2.id, user3.id);
+
+    const {
+      body: { data, errors },
+    } = await gqlQuery(app, {
+      query: `query ($userId: UUID!) {
+        recommendedAuthors(userId: $userId, limit: 50) {
+            user {
+              id
+            }
+            sharedSubscribers
+            explanation
+        }
+    }`,
+      variables: { userId: user1.id },
+    });
+    t.ok(!errors);
+    const recommended = data.recommendedAuthors.find(({ user }) => user.id === user3.id);
+    t.ok(recommended.sharedSubscribers === 1);
+    t.ok(recommended.explanation === 'followed by 1 of your subscribers');
+  });
+});
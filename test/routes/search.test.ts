@@ -0,0 +1,121 @@
+import { randomUUID } from 'node:crypto';
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  changePost,
+  createPost,
+  createUser,
+  deletePost,
+  gqlQuery,
+  search,
+  tokenOf,
+} from '../utils/requests.js';
+import { genCreateUserDto } from '../utils/fake.js';
+
+// Words no other test writes, so earlier rows of the database never match.
+const genWord = () => `w${randomUUID().replaceAll('-', '')}`;
+
+await test('search', async (t) => {
+  const app = await build(t);
+
+  await t.test('Rank and highlight matching posts and users.', async (t) => {
+    const word = genWord();
+    const { body: user1 } = await createUser(app, {
+      ...genCreateUserDto(),
+      name: `${word} Smith`,
+    });
+    const { body: post1 } = await createPost(app, user1.id);
+    const { body: post2 } = await createPost(app, user1.id);
+    await changePost(app, post1.id, { title: `All about ${word}` }, tokenOf(user1.id));
+    await changePost(
+      app,
+      post2.id,
+      { content: `Somewhere in here: ${word}.` },
+      tokenOf(user1.id),
+    );
+
+    const { res, body: hits } = await search(app, { q: word.slice(0, 12) });
+    t.ok(res.statusCode === 200);
+    t.ok(hits.length === 3);
+    t.same(hits.map(({ id }) => id).sort(), [user1.id, post1.id, post2.id].sort());
+
+    // A title match outranks a content match.
+    const postHits = hits.filter(({ entity }) => entity === 'Post');
+    t.ok(postHits[0].id === post1.id);
+    t.ok(postHits[0].title === `All about <mark>${word}</mark>`);
+    t.ok(postHits[1].snippet.includes(`<mark>${word}</mark>`));
+    t.ok(postHits[1].post?.authorId === user1.id);
+
+    const { body: users } = await search(app, { q: word, types: ['User'] });
+    t.ok(users.length === 1);
+    t.ok(users[0].user?.id === user1.id);
+
+    const { body: page } = await search(app, { q: word, limit: '1', offset: '2' });
+    t.ok(page.length === 1);
+  });
+
+  await t.test('Escape the HTML of the content around highlights.', async (t) => {
+    const word = genWord();
+    const { body: user1 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+    await changePost(
+      app,
+      post1.id,
+      {
+        title: `<img src=x onerror="alert(1)"> ${word}`,
+        content: `${word} & <script>alert('x')</script>`,
+      },
+      tokenOf(user1.id),
+    );
+
+    const { body: hits } = await search(app, { q: word });
+    t.ok(hits.length === 1);
+    t.ok(
+      hits[0].title ===
+        `&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>${word}</mark>`,
+    );
+    t.ok(
+      hits[0].snippet ===
+        `<mark>${word}</mark> &amp; &lt;script&gt;alert(&#39;x&#39;)&lt;/script&gt;`,
+    );
+  });
+
+  await t.test('Forget changed and deleted posts.', async (t) => {
+    const word = genWord();
+    const { body: user1 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+    const { body: post2 } = await createPost(app, user1.id);
+    await changePost(app, post1.id, { title: word }, tokenOf(user1.id));
+    await changePost(app, post2.id, { title: word }, tokenOf(user1.id));
+
+    await changePost(app, post1.id, { title: 'Something else' }, tokenOf(user1.id));
+    await deletePost(app, post2.id, tokenOf(user1.id));
+
+    const { body: hits } = await search(app, { q: word });
+    t.ok(hits.length === 0);
+  });
+
+  await t.test('Search over GraphQL.', async (t) => {
+    const word = genWord();
+    const { body: user1 } = await createUser(app, { ...genCreateUserDto(), name: word });
+
+    const {
+      body: { data, errors },
+    } = await gqlQuery(app, {
+      query: `query ($text: String!) {
+        search(text: $text, types: [User]) {
+            entity
+            title
+            user {
+              id
+            }
+        }
+    }`,
+      variables: { text: word },
+    });
+    t.ok(!errors);
+    t.ok(data.search.length === 1);
+    t.ok(data.search[0].title === `<mark>${word}</mark>`);
+    t.ok(data.search[0].user.id === user1.id);
+  });
+});
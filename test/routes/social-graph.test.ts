@@ -0,0 +1,100 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import { createUser, getPrismaStats, gqlQuery, subscribeTo } from '../utils/requests.js';
+
+await test('social-graph', async (t) => {
+  const app = await build(t);
+
+  await t.test('Count followers and follows in one query each.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+    await subscribeTo(app, user1.id, user3.id);
+    await subscribeTo(app, user2.id, user3.id);
+
+    const {
+      res,
+      body: { data, errors },
+    } = await gqlQuery(app, {
+      query: `query ($user1Id: UUID!, $user2Id: UUID!) {
+        users {
+            followersCount
+            followingCount
+        }
+        user(id: $user1Id) {
+            followersCount
+            followingCount
+            mutualFollows(with: $user2Id) {
+              id
+            }
+        }
+    }`,
+      variables: { user1Id: user1.id, user2Id: user2.id },
+    });
+    t.ok(!errors);
+    t.ok(data.user.followersCount === 0);
+    t.ok(data.user.followingCount === 2);
+    t.same(data.user.mutualFollows, [{ id: user3.id }]);
+
+    const requestId = res.headers['x-request-id'] as string;
+    const { body: stats } = await getPrismaStats(app, requestId);
+    const groupBys = stats.operationHistory.filter(
+      ({ model, operation }) =>
+        model === 'SubscribersOnAuthors' && operation === 'groupBy',
+    );
+    t.ok(groupBys.length === 2);
+  });
+
+  await t.test('Find the shortest chain of subscriptions.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: user3 } = await createUser(app);
+    const { body: user4 } = await createUser(app);
+    await subscribeTo(app, user1.id, user2.id);
+    await subscribeTo(app, user2.id, user3.id);
+    await subscribeTo(app, user3.id, user4.id);
+    await subscribeTo(app, user1.id, user3.id);
+
+    const query = `query ($from: UUID!, $to: UUID!, $maxDepth: Int!) {
+        pathBetween(fromUserId: $from, toUserId: $to, maxDepth: $maxDepth) {
+            id
+        }
+    }`;
+    const {
+      body: { data, errors },
+    } = await gqlQuery(app, {
+      query,
+      variables: { from: user1.id, to: user4.id, maxDepth: 3 },
+    });
+    t.ok(!errors);
+    t.same(
+      data.pathBetween.map(({ id }) => id),
+      [user1.id, user3.id, user4.id],
+    );
+
+    const {
+      body: { data: tooShort },
+    } = await gqlQuery(app, {
+      query,
+      variables: { from: user1.id, to: user4.id, maxDepth: 1 },
+    });
+    t.ok(tooShort.pathBetween === null);
+
+    const {
+      body: { data: reversed },
+    } = await gqlQuery(app, {
+      query,
+      variables: { from: user4.id, to: user1.id, maxDepth: 3 },
+    });
+    t.ok(reversed.pathBetween === null);
+
+    const {
+      body: { errors: tooDeep },
+    } = await gqlQuery(app, {
+      query,
+      variables: { from: user1.id, to: user4.id, maxDepth: 100 },
+    });
+    t.ok(tooDeep[0].extensions.code === 'BAD_USER_INPUT');
+  });
+});
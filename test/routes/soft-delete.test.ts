@@ -0,0 +1,189 @@
+import { test } from 'tap';
+import { build } from '../helper.js';
+import {
+  authHeaders,
+  createPost,
+  createProfile,
+  createUser,
+  deletePost,
+  deleteUser,
+  getPost,
+  getProfile,
+  getUser,
+  gqlQuery,
+  purge,
+  restorePost,
+  restoreUser,
+  subscribeTo,
+  subscribedToUser,
+  tokenOf,
+} from '../utils/requests.js';
+import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
+
+await test('soft-delete', async (t) => {
+  const app = await build(t);
+  const { body: admin } = await createUser(app);
+  const adminApp = await build(t, { ADMIN_USER_IDS: admin.id });
+  const adminToken = tokenOf(admin.id);
+
+  await t.test('Hide a deleted user together with everything of theirs.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+    const { body: profile1 } = await createProfile(app, user1.id, MemberTypeId.BASIC);
+    await subscribeTo(app, user1.id, user2.id);
+
+    const { res } = await deleteUser(app, user1.id, tokenOf(user1.id));
+    t.ok(res.statusCode === 204);
+
+    const { res: userRes } = await getUser(app, user1.id);
+    const { res: postRes } = await getPost(app, post1.id);
+    const { res: profileRes } = await getProfile(app, profile1.id);
+    const { body: subscribers } = await subscribedToUser(app, user2.id);
+    t.ok(userRes.statusCode === 404);
+    t.ok(postRes.statusCode === 404);
+    t.ok(profileRes.statusCode === 404);
+    t.ok(subscribers.length === 0);
+
+    // Deleted accounts are restored by administrators only.
+    const { res: restoreRes } = await restoreUser(app, user1.id);
+    t.ok(restoreRes.statusCode === 401);
+    const { res: ownerRestoreRes } = await restoreUser(app, user1.id, tokenOf(user1.id));
+    t.ok(ownerRestoreRes.statusCode === 401);
+
+    const { res: adminRestoreRes, body: restoredUser } = await restoreUser(
+      adminApp,
+      user1.id,
+      adminToken,
+    );
+    t.ok(adminRestoreRes.statusCode === 200);
+    t.ok(restoredUser.id === user1.id);
+    const { res: restoredPostRes } = await getPost(app, post1.id);
+    const { body: restoredSubscribers } = await subscribedToUser(app, user2.id);
+    t.ok(restoredPostRes.statusCode === 200);
+    t.ok(restoredSubscribers.some(({ id }) => id === user1.id));
+  });
+
+  await t.test('Restore a deleted post.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+
+    await deletePost(app, post1.id, tokenOf(user1.id));
+    const { res: deletedRes } = await getPost(app, post1.id);
+    t.ok(deletedRes.statusCode === 404);
+
+    const { res, body: restoredPost } = await restorePost(
+      app,
+      post1.id,
+      tokenOf(user1.id),
+    );
+    t.ok(res.statusCode === 200);
+    t.ok(restoredPost.id === post1.id);
+
+    const { res: restoredRes } = await getPost(app, post1.id);
+    t.ok(restoredRes.statusCode === 200);
+
+    const { res: notDeletedRes } = await restorePost(app, post1.id, tokenOf(user1.id));
+    t.ok(notDeletedRes.statusCode === 404);
+  });
+
+  await t.test('Restore users and posts over GraphQL.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: post2 } = await createPost(app, user2.id);
+    await deleteUser(app, user1.id, tokenOf(user1.id));
+    await deletePost(app, post2.id, tokenOf(user2.id));
+
+    const restoreUserQuery = `mutation ($id: UUID!) {
+        restoreUser(id: $id) {
+            id
+        }
+    }`;
+    const {
+      body: { errors: forbiddenErrors },
+    } = await gqlQuery(
+      app,
+      { query: restoreUserQuery, variables: { id: user1.id } },
+      authHeaders(user2.id),
+    );
+    t.ok(forbiddenErrors?.[0].extensions.code === 'FORBIDDEN');
+
+    const {
+      body: { errors: userErrors, data: userData },
+    } = await gqlQuery(
+      adminApp,
+      { query: restoreUserQuery, variables: { id: user1.id } },
+      authHeaders(admin.id),
+    );
+    t.ok(!userErrors);
+    t.ok(userData.restoreUser.id === user1.id);
+
+    const {
+      body: { errors: postErrors, data: postData },
+    } = await gqlQuery(
+      app,
+      {
+        query: `mutation ($id: UUID!) {
+        restorePost(id: $id) {
+            id
+        }
+    }`,
+        variables: { id: post2.id },
+      },
+      authHeaders(user2.id),
+    );
+    t.ok(!postErrors);
+    t.ok(postData.restorePost.id === post2.id);
+    const { res: postRes } = await getPost(app, post2.id);
+    t.ok(postRes.statusCode === 200);
+  });
+
+  await t.test('Purge rows deleted before the retention window.', async (t) => {
+    const { body: user1 } = await createUser(app);
+    const { body: user2 } = await createUser(app);
+    const { body: post1 } = await createPost(app, user1.id);
+    const { body: post2 } = await createPost(app, user2.id);
+    const { body: post3 } = await createPost(app, user2.id);
+    await createProfile(app, user1.id, MemberTypeId.BASIC);
+    await subscribeTo(app, user1.id, user2.id);
+    await subscribeTo(app, user2.id, user1.id);
+    await deleteUser(app, user1.id, tokenOf(user1.id));
+    await deletePost(app, post2.id, tokenOf(user2.id));
+
+    const { res: forbiddenRes } = await purge(app, tokenOf(user2.id));
+    t.ok(forbiddenRes.statusCode === 403);
+
+    // Rows deleted just now are inside the default window of 30 days.
+    const { res: keptRes, body: keptReport } = await purge(adminApp, adminToken);
+    t.ok(keptRes.statusCode === 200);
+    const windowMs = Date.now() - new Date(keptReport.deletedBefore).getTime();
+    t.ok(Math.abs(windowMs - 30 * 24 * 60 * 60 * 1000) < 60_000);
+    const { res: restorableRes } = await restorePost(app, post2.id, tokenOf(user2.id));
+    t.ok(restorableRes.statusCode === 200);
+    await deletePost(app, post2.id, tokenOf(user2.id));
+
+    // Without a window, every deleted row goes, with all that belongs to a user.
+    const purgeApp = await build(t, {
+      ADMIN_USER_IDS: admin.id,
+      SOFT_DELETE_RETENTION_DAYS: '0',
+    });
+    const { res, body: report } = await purge(purgeApp, adminToken);
+    t.ok(res.statusCode === 200);
+    t.ok(report.users >= 1);
+    t.ok(report.posts >= 1);
+
+    const { res: userRestoreRes } = await restoreUser(adminApp, user1.id, adminToken);
+    t.ok(userRestoreRes.statusCode === 404);
+    const { res: postRestoreRes } = await restorePost(app, post2.id, tokenOf(user2.id));
+    t.ok(postRestoreRes.statusCode === 404);
+    const { res: post1Res } = await getPost(app, post1.id);
+    t.ok(post1Res.statusCode === 404);
+
+    const { res: user2Res } = await getUser(app, user2.id);
+    const { res: post3Res } = await getPost(app, post3.id);
+    const { body: subscribers } = await subscribedToUser(app, user2.id);
+    t.ok(user2Res.statusCode === 200);
+    t.ok(post3Res.statusCode === 200);
+    t.ok(subscribers.length === 0);
+  });
+});
@@ -8,7 +8,7 @@ import { MemberTypeId } from '../../src/routes/member-types/schemas.js';
 export function genCreateUserDto(): Static<(typeof createUserSchema)['body']> {
   return {
     name: randomUUID(),
-    balance: randomInt(0, 100) + +Math.random().toFixed(3),
+    password: randomUUID(),
   };
 }
 
@@ -2,33 +2,118 @@ import { FastifyInstance } from 'fastify';
 import { Static } from '@sinclair/typebox';
 import {
   createGqlResponseSchema,
+  gqlBatchResponseSchema,
+  gqlRequestSchema,
   gqlResponseSchema,
 } from '../../src/routes/graphql/schemas.js';
 import { genCreatePostDto, genCreateProfileDto, genCreateUserDto } from './fake.js';
+import { getTestAdmin } from '../helper.js';
 import { userSchema } from '../../src/routes/users/schemas.js';
 import { profileSchema } from '../../src/routes/profiles/schemas.js';
 import { postSchema } from '../../src/routes/posts/schemas.js';
 import { MemberTypeId, memberTypeSchema } from '../../src/routes/member-types/schemas.js';
-import { prismaStatsSchema } from '../../src/routes/stats/schemas.js';
+import {
+  prismaStatsSchema,
+  prismaStatsSummarySchema,
+} from '../../src/routes/stats/schemas.js';
+import { tokenSchema } from '../../src/routes/auth/schemas.js';
+import { postQuotaSchema } from '../../src/routes/users/_userId/post-quota/schemas.js';
+import {
+  balanceReconciliationSchema,
+  transactionSchema,
+} from '../../src/routes/users/_userId/transactions/schemas.js';
+import { auditLogSchema } from '../../src/routes/audit/schemas.js';
+import { purgeReportSchema } from '../../src/routes/admin/schemas.js';
+import { searchHitSchema } from '../../src/routes/search/schemas.js';
+import { feedPageSchema } from '../../src/routes/users/_userId/feed/schemas.js';
+import { recommendedAuthorSchema } from '../../src/routes/users/_userId/recommended-authors/schemas.js';
 
 type UserBody = Static<typeof userSchema>;
 type ProfileBody = Static<typeof profileSchema>;
 type PostBody = Static<typeof postSchema>;
 type MemberTypeBody = Static<typeof memberTypeSchema>;
+type PostQuotaBody = Static<typeof postQuotaSchema>;
+type TokenBody = Static<typeof tokenSchema>;
+type TransactionBody = Static<typeof transactionSchema>;
+type BalanceReconciliationBody = Static<typeof balanceReconciliationSchema>;
+type AuditLogBody = Static<typeof auditLogSchema>;
+type PurgeReportBody = Static<typeof purgeReportSchema>;
+type SearchHitBody = Static<typeof searchHitSchema>;
+type FeedPageBody = Static<typeof feedPageSchema>;
+type RecommendedAuthorBody = Static<typeof recommendedAuthorSchema>;
+
+// Users made by `createUser` are logged in right away, so that the helpers below can
+// act as them: only authenticated owners may change anything.
+const tokens = new Map<string, string>();
+
+export function tokenOf(userId: string) {
+  return tokens.get(userId);
+}
+
+const bearer = (token?: string): Record<string, string> =>
+  token === undefined ? {} : { authorization: `Bearer ${token}` };
+
+export function authHeaders(userId: string) {
+  return bearer(tokens.get(userId));
+}
+
+// The administrator every test app trusts, see `build`.
+async function adminHeaders() {
+  const { token } = await getTestAdmin();
+  return bearer(token);
+}
 
 export async function gqlQuery(
   app: FastifyInstance,
   dto: Static<(typeof createGqlResponseSchema)['body']>,
+  headers: Record<string, string> = {},
 ) {
   const res = await app.inject({
     url: `/graphql`,
     method: 'POST',
     body: dto,
+    headers,
   });
   const body = (await res.json()) as Static<typeof gqlResponseSchema>;
   return { res, body };
 }
 
+export async function gqlBatch(
+  app: FastifyInstance,
+  dtos: Static<typeof gqlRequestSchema>[],
+  headers: Record<string, string> = {},
+) {
+  const res = await app.inject({
+    url: `/graphql`,
+    method: 'POST',
+    body: dtos,
+    headers,
+  });
+  const body = (await res.json()) as Static<typeof gqlBatchResponseSchema>;
+  return { res, body };
+}
+
+export async function gqlGetQuery(
+  app: FastifyInstance,
+  query: {
+    query?: string;
+    variables?: string;
+    operationName?: string;
+    extensions?: string;
+  },
+  headers: Record<string, string> = {},
+) {
+  const res = await app.inject({
+    url: `/graphql`,
+    method: 'GET',
+    query,
+    headers,
+  });
+  const body =
+    res.statusCode === 304 ? undefined : (res.json() as Static<typeof gqlResponseSchema>);
+  return { res, body };
+}
+
 export async function getUsers(app: FastifyInstance) {
   const res = await app.inject({
     url: `/users`,
@@ -101,13 +186,17 @@ export async function getMemberType(app: FastifyInstance, id: string) {
   return { res, body };
 }
 
-export async function createUser(app: FastifyInstance) {
+export async function createUser(app: FastifyInstance, dto = genCreateUserDto()) {
   const res = await app.inject({
     url: '/users',
     method: 'POST',
-    payload: genCreateUserDto(),
+    payload: dto,
   });
   const body = (await res.json()) as UserBody;
+  if (res.statusCode === 200 && dto.password !== undefined) {
+    const { body: token } = await login(app, body.id, dto.password);
+    tokens.set(body.id, token.token);
+  }
   return { res, body };
 }
 
@@ -120,6 +209,7 @@ export async function createProfile(
     url: '/profiles',
     method: 'POST',
     payload: genCreateProfileDto(userId, memberTypeId),
+    headers: authHeaders(userId),
   });
   const body = (await res.json()) as ProfileBody;
   return { res, body };
@@ -130,11 +220,223 @@ export async function createPost(app: FastifyInstance, authorId: string) {
     url: '/posts',
     method: 'POST',
     payload: genCreatePostDto(authorId),
+    headers: authHeaders(authorId),
   });
   const body = (await res.json()) as PostBody;
   return { res, body };
 }
 
+export async function changePost(
+  app: FastifyInstance,
+  id: string,
+  dto: Partial<Pick<PostBody, 'title' | 'content'>>,
+  token?: string,
+) {
+  const res = await app.inject({
+    url: `/posts/${id}`,
+    method: 'PATCH',
+    payload: dto,
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as PostBody;
+  return { res, body };
+}
+
+export async function changeUser(
+  app: FastifyInstance,
+  id: string,
+  dto: Partial<Pick<UserBody, 'name'>>,
+  token?: string,
+) {
+  const res = await app.inject({
+    url: `/users/${id}`,
+    method: 'PATCH',
+    payload: dto,
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as UserBody;
+  return { res, body };
+}
+
+export async function changeProfile(
+  app: FastifyInstance,
+  id: string,
+  dto: Partial<Pick<ProfileBody, 'isMale' | 'yearOfBirth' | 'memberTypeId'>>,
+  token?: string,
+) {
+  const res = await app.inject({
+    url: `/profiles/${id}`,
+    method: 'PATCH',
+    payload: dto,
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as ProfileBody;
+  return { res, body };
+}
+
+export async function deleteUser(app: FastifyInstance, id: string, token?: string) {
+  const res = await app.inject({
+    url: `/users/${id}`,
+    method: 'DELETE',
+    headers: bearer(token),
+  });
+  return { res };
+}
+
+export async function restoreUser(app: FastifyInstance, id: string, token?: string) {
+  const res = await app.inject({
+    url: `/users/${id}/restore`,
+    method: 'POST',
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as UserBody;
+  return { res, body };
+}
+
+export async function deletePost(app: FastifyInstance, id: string, token?: string) {
+  const res = await app.inject({
+    url: `/posts/${id}`,
+    method: 'DELETE',
+    headers: bearer(token),
+  });
+  return { res };
+}
+
+export async function restorePost(app: FastifyInstance, id: string, token?: string) {
+  const res = await app.inject({
+    url: `/posts/${id}/restore`,
+    method: 'POST',
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as PostBody;
+  return { res, body };
+}
+
+export async function getPostQuota(app: FastifyInstance, userId: string) {
+  const res = await app.inject({
+    url: `/users/${userId}/post-quota`,
+    method: 'GET',
+  });
+  const body = (await res.json()) as PostQuotaBody;
+  return { res, body };
+}
+
+export async function login(app: FastifyInstance, userId: string, password: string) {
+  const res = await app.inject({
+    url: '/auth/login',
+    method: 'POST',
+    payload: {
+      userId,
+      password,
+    },
+  });
+  const body = (await res.json()) as TokenBody;
+  return { res, body };
+}
+
+export async function getMe(app: FastifyInstance, token?: string) {
+  const res = await app.inject({
+    url: '/auth/me',
+    method: 'GET',
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as UserBody;
+  return { res, body };
+}
+
+export async function transfer(
+  app: FastifyInstance,
+  userId: string,
+  recipientId: string,
+  amount: number,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions/transfer`,
+    method: 'POST',
+    payload: {
+      recipientId,
+      amount,
+    },
+    headers: authHeaders(userId),
+  });
+  const body = (await res.json()) as TransactionBody;
+  return { res, body };
+}
+
+export async function charge(app: FastifyInstance, userId: string, amount: number) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions/charge`,
+    method: 'POST',
+    payload: {
+      amount,
+    },
+    headers: authHeaders(userId),
+  });
+  const body = (await res.json()) as TransactionBody;
+  return { res, body };
+}
+
+export async function deposit(
+  app: FastifyInstance,
+  userId: string,
+  amount: number,
+  token?: string,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions/deposit`,
+    method: 'POST',
+    payload: {
+      amount,
+    },
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as TransactionBody;
+  return { res, body };
+}
+
+export async function getTransactions(
+  app: FastifyInstance,
+  userId: string,
+  // `null` asks anonymously.
+  token: string | null = tokenOf(userId) ?? null,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions`,
+    method: 'GET',
+    headers: bearer(token ?? undefined),
+  });
+  const body = (await res.json()) as TransactionBody[];
+  return { res, body };
+}
+
+export async function getBalanceReconciliation(
+  app: FastifyInstance,
+  userId: string,
+  token: string | null = tokenOf(userId) ?? null,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions/reconciliation`,
+    method: 'GET',
+    headers: bearer(token ?? undefined),
+  });
+  const body = (await res.json()) as BalanceReconciliationBody;
+  return { res, body };
+}
+
+export async function reconcileBalance(
+  app: FastifyInstance,
+  userId: string,
+  token?: string,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/transactions/reconciliation`,
+    method: 'POST',
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as BalanceReconciliationBody;
+  return { res, body };
+}
+
 export async function subscribeTo(
   app: FastifyInstance,
   userId: string,
@@ -146,6 +448,7 @@ export async function subscribeTo(
     payload: {
       authorId,
     },
+    headers: authHeaders(userId),
   });
   const body = (await res.json()) as UserBody;
   return { res, body };
@@ -169,11 +472,134 @@ export async function subscribedToUser(app: FastifyInstance, userId: string) {
   return { res, body };
 }
 
-export async function getPrismaStats(app: FastifyInstance) {
+// The stats helpers ask as the test administrator unless given other `headers`.
+export async function getPrismaStats(
+  app: FastifyInstance,
+  requestId?: string,
+  headers?: Record<string, string>,
+) {
   const res = await app.inject({
     url: '/stats/prisma',
     method: 'GET',
+    query: requestId === undefined ? {} : { requestId },
+    headers: headers ?? (await adminHeaders()),
   });
   const body = (await res.json()) as Static<typeof prismaStatsSchema>;
   return { res, body };
 }
+
+export async function getPrismaStatsSummary(
+  app: FastifyInstance,
+  headers?: Record<string, string>,
+) {
+  const res = await app.inject({
+    url: '/stats/prisma/summary',
+    method: 'GET',
+    headers: headers ?? (await adminHeaders()),
+  });
+  const body = (await res.json()) as Static<typeof prismaStatsSummarySchema>;
+  return { res, body };
+}
+
+export async function resetPrismaStats(
+  app: FastifyInstance,
+  headers?: Record<string, string>,
+) {
+  const res = await app.inject({
+    url: '/stats/prisma',
+    method: 'DELETE',
+    headers: headers ?? (await adminHeaders()),
+  });
+  return { res };
+}
+
+export async function getAuditLog(
+  app: FastifyInstance,
+  query: { entity?: string; entityId?: string },
+  token?: string,
+) {
+  const res = await app.inject({
+    url: '/audit',
+    method: 'GET',
+    query,
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as AuditLogBody[];
+  return { res, body };
+}
+
+export async function search(
+  app: FastifyInstance,
+  query: { q: string; types?: string[]; limit?: string; offset?: string },
+) {
+  const res = await app.inject({
+    url: '/search',
+    method: 'GET',
+    query,
+  });
+  const body = (await res.json()) as SearchHitBody[];
+  return { res, body };
+}
+
+export async function getFeed(
+  app: FastifyInstance,
+  userId: string,
+  query: { since?: string; after?: string; limit?: string } = {},
+  // `null` asks anonymously.
+  token: string | null = tokenOf(userId) ?? null,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/feed`,
+    method: 'GET',
+    query,
+    headers: bearer(token ?? undefined),
+  });
+  const body = (await res.json()) as FeedPageBody;
+  return { res, body };
+}
+
+export async function getRecommendedAuthors(
+  app: FastifyInstance,
+  userId: string,
+  limit?: number,
+) {
+  const res = await app.inject({
+    url: `/users/${userId}/recommended-authors`,
+    method: 'GET',
+    query: limit === undefined ? {} : { limit: String(limit) },
+  });
+  const body = (await res.json()) as RecommendedAuthorBody[];
+  return { res, body };
+}
+
+export async function exportData(app: FastifyInstance, token?: string) {
+  const res = await app.inject({
+    url: '/admin/export',
+    method: 'GET',
+    headers: bearer(token),
+  });
+  return { res };
+}
+
+export async function importData(app: FastifyInstance, ndjson: string, token?: string) {
+  const res = await app.inject({
+    url: '/admin/import',
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-ndjson',
+      ...bearer(token),
+    },
+    payload: ndjson,
+  });
+  return { res };
+}
+
+export async function purge(app: FastifyInstance, token?: string) {
+  const res = await app.inject({
+    url: '/admin/purge',
+    method: 'POST',
+    headers: bearer(token),
+  });
+  const body = (await res.json()) as PurgeReportBody;
+  return { res, body };
+}